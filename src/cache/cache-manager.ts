@@ -6,21 +6,33 @@ import { getLogger } from '../utils/logger.js';
 
 const logger = getLogger();
 
+/** Bumped when parsed skills gain fields or change ids, so older caches are reparsed */
+const CACHE_VERSION = '6.0.0';
+
 export interface CacheMetadata {
   version: string;
   lastUpdated: string;
   skillCount: number;
 }
 
+export interface EmbeddingCache {
+  /** Id of the provider that produced the vectors */
+  provider: string;
+  /** Vector and content hash per skill id */
+  entries: Record<string, { hash: string; vector: number[] }>;
+}
+
 export class CacheManager {
   private cacheDir: string;
   private skillsFile: string;
   private metadataFile: string;
+  private embeddingsFile: string;
 
   constructor(cacheDir: string) {
     this.cacheDir = cacheDir;
     this.skillsFile = join(cacheDir, 'skills.json');
     this.metadataFile = join(cacheDir, 'metadata.json');
+    this.embeddingsFile = join(cacheDir, 'embeddings.json');
   }
 
   async ensureCacheDir(): Promise<void> {
@@ -37,7 +49,7 @@ export class CacheManager {
     await writeFile(this.skillsFile, JSON.stringify(data, null, 2), 'utf-8');
 
     const metadata: CacheMetadata = {
-      version: '1.0.0',
+      version: CACHE_VERSION,
       lastUpdated: new Date().toISOString(),
       skillCount: registry.getSkillCount(),
     };
@@ -53,6 +65,12 @@ export class CacheManager {
         return null;
       }
 
+      const metadata = await this.getMetadata();
+      if (metadata && metadata.version !== CACHE_VERSION) {
+        logger.info(`Skills cache format ${metadata.version} is outdated, skills will be reparsed`);
+        return null;
+      }
+
       const data = JSON.parse(await readFile(this.skillsFile, 'utf-8'));
       const registry = SkillRegistry.fromJSON(data);
 
@@ -64,6 +82,24 @@ export class CacheManager {
     }
   }
 
+  async saveEmbeddings(cache: EmbeddingCache): Promise<void> {
+    await this.ensureCacheDir();
+    await writeFile(this.embeddingsFile, JSON.stringify(cache), 'utf-8');
+    logger.debug(`Saved ${Object.keys(cache.entries).length} skill embeddings to cache`);
+  }
+
+  async loadEmbeddings(): Promise<EmbeddingCache | null> {
+    try {
+      if (!existsSync(this.embeddingsFile)) {
+        return null;
+      }
+      return JSON.parse(await readFile(this.embeddingsFile, 'utf-8')) as EmbeddingCache;
+    } catch (error) {
+      logger.warn('Failed to load embeddings from cache:', error);
+      return null;
+    }
+  }
+
   async getMetadata(): Promise<CacheMetadata | null> {
     try {
       if (!existsSync(this.metadataFile)) {
@@ -86,7 +122,11 @@ export class CacheManager {
       if (existsSync(this.metadataFile)) {
         await writeFile(
           this.metadataFile,
-          JSON.stringify({ version: '1.0.0', lastUpdated: new Date().toISOString(), skillCount: 0 }),
+          JSON.stringify({
+            version: CACHE_VERSION,
+            lastUpdated: new Date().toISOString(),
+            skillCount: 0,
+          }),
           'utf-8'
         );
       }
@@ -9,6 +9,20 @@ const configSchema = z.object({
   syncIntervalMinutes: z.number().int().min(0).default(60),
   localSkillsPath: z.string().optional(),
   logLevel: z.enum(['debug', 'info', 'warn', 'error']).default('info'),
+  transport: z.enum(['stdio', 'http']).default('stdio'),
+  httpHost: z.string().default('127.0.0.1'),
+  httpPort: z.number().int().min(0).max(65535).default(3000),
+  httpSessionTimeoutMinutes: z.number().int().min(1).default(30),
+  skillTools: z.boolean().default(false),
+  skillToolsAllowlist: z.array(z.string()).default([]),
+  skillToolsMax: z.number().int().min(0).default(50),
+  autoResolveSkills: z.boolean().default(false),
+  embeddingsProvider: z.enum(['local', 'openai', 'none']).default('local'),
+  embeddingsUrl: z.string().default('http://localhost:11434/v1'),
+  embeddingsModel: z.string().default('nomic-embed-text'),
+  embeddingsApiKey: z.string().optional(),
+  discoveryMaxDepth: z.number().int().min(0).default(5),
+  discoveryIgnore: z.array(z.string()).default([]),
 });
 
 export type Config = z.infer<typeof configSchema>;
@@ -23,6 +37,37 @@ function loadConfig(): Config {
       : undefined,
     localSkillsPath: process.env.SKILLS_LOCAL_PATH,
     logLevel: (process.env.LOG_LEVEL as Config['logLevel']) || undefined,
+    transport: (process.env.MCP_TRANSPORT as Config['transport']) || undefined,
+    httpHost: process.env.MCP_HTTP_HOST,
+    httpPort: process.env.MCP_HTTP_PORT ? parseInt(process.env.MCP_HTTP_PORT, 10) : undefined,
+    httpSessionTimeoutMinutes: process.env.MCP_HTTP_SESSION_TIMEOUT
+      ? parseInt(process.env.MCP_HTTP_SESSION_TIMEOUT, 10)
+      : undefined,
+    skillTools: process.env.SKILLS_AS_TOOLS ? process.env.SKILLS_AS_TOOLS === 'true' : undefined,
+    skillToolsAllowlist: process.env.SKILLS_AS_TOOLS_ALLOWLIST
+      ? process.env.SKILLS_AS_TOOLS_ALLOWLIST.split(',')
+          .map((id) => id.trim())
+          .filter(Boolean)
+      : undefined,
+    skillToolsMax: process.env.SKILLS_AS_TOOLS_MAX
+      ? parseInt(process.env.SKILLS_AS_TOOLS_MAX, 10)
+      : undefined,
+    autoResolveSkills: process.env.SKILLS_AUTO_RESOLVE
+      ? process.env.SKILLS_AUTO_RESOLVE === 'true'
+      : undefined,
+    embeddingsProvider:
+      (process.env.EMBEDDINGS_PROVIDER as Config['embeddingsProvider']) || undefined,
+    embeddingsUrl: process.env.EMBEDDINGS_URL,
+    embeddingsModel: process.env.EMBEDDINGS_MODEL,
+    embeddingsApiKey: process.env.EMBEDDINGS_API_KEY,
+    discoveryMaxDepth: process.env.SKILLS_MAX_DEPTH
+      ? parseInt(process.env.SKILLS_MAX_DEPTH, 10)
+      : undefined,
+    discoveryIgnore: process.env.SKILLS_IGNORE
+      ? process.env.SKILLS_IGNORE.split(',')
+          .map((pattern) => pattern.trim())
+          .filter(Boolean)
+      : undefined,
   });
 
   // Ensure cache directory exists
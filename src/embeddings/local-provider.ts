@@ -0,0 +1,103 @@
+import { tokenize } from '../services/skill-search.js';
+import { EmbeddingProvider, normalizeVector } from './provider.js';
+
+const DEFAULT_DIMENSIONS = 512;
+
+// Character trigrams carry less weight than whole words; they mostly help with
+// spelling variants and compound words ("webhook" vs "web hooks")
+const TRIGRAM_WEIGHT = 0.3;
+const SYNONYM_WEIGHT = 1;
+
+/**
+ * Words that mean the same thing in skill descriptions. Each group is mapped to
+ * a shared feature, so "spreadsheet" and "xlsx" land near each other even
+ * though they share no characters.
+ */
+const SYNONYM_GROUPS: string[][] = [
+  ['spreadsheet', 'xlsx', 'xls', 'excel', 'csv', 'workbook', 'sheet'],
+  ['document', 'docx', 'word', 'doc'],
+  ['presentation', 'pptx', 'powerpoint', 'slide', 'deck', 'keynote'],
+  ['pdf', 'acrobat'],
+  ['test', 'testing', 'spec', 'unittest', 'jest', 'vitest', 'pytest'],
+  ['kubernetes', 'k8s', 'kubectl', 'helm'],
+  ['database', 'db', 'sql', 'postgres', 'postgresql', 'mysql', 'sqlite'],
+  ['authentication', 'auth', 'login', 'oauth', 'sso', 'signin'],
+  ['frontend', 'ui', 'interface', 'css', 'html', 'component'],
+  ['image', 'picture', 'photo', 'png', 'jpg', 'jpeg', 'svg'],
+  ['security', 'vulnerability', 'audit', 'exploit', 'cve', 'pentest'],
+  ['deploy', 'deployment', 'release', 'hosting', 'ship'],
+  ['container', 'docker', 'dockerfile', 'podman'],
+  ['payment', 'billing', 'checkout', 'invoice', 'subscription'],
+  ['javascript', 'js', 'node', 'nodejs', 'npm'],
+  ['typescript', 'ts', 'tsx'],
+  ['python', 'py', 'pip'],
+  ['git', 'commit', 'branch', 'merge', 'rebase'],
+  ['llm', 'gpt', 'claude', 'prompt', 'model'],
+];
+
+const SYNONYMS: Map<string, string> = new Map(
+  SYNONYM_GROUPS.flatMap((group) =>
+    group.flatMap((word) => tokenize(word)).map((term) => [term, `syn:${group[0]}`])
+  )
+);
+
+/** 32-bit FNV-1a hash */
+function hash(feature: string): number {
+  let h = 0x811c9dc5;
+  for (let i = 0; i < feature.length; i++) {
+    h ^= feature.charCodeAt(i);
+    h = Math.imul(h, 0x01000193);
+  }
+  return h >>> 0;
+}
+
+/**
+ * Fully local embeddings: words, synonym groups and character trigrams are
+ * hashed into a fixed number of dimensions (the "hashing trick"), weighted by
+ * sublinear term frequency and normalized. No model download or network
+ * access is needed, at the cost of only knowing the synonyms listed above.
+ */
+export class LocalEmbeddingProvider implements EmbeddingProvider {
+  readonly id: string;
+  private dimensions: number;
+
+  constructor(dimensions: number = DEFAULT_DIMENSIONS) {
+    this.dimensions = dimensions;
+    this.id = `local-hashed-v1-${dimensions}`;
+  }
+
+  async embed(texts: string[]): Promise<number[][]> {
+    return texts.map((text) => this.embedText(text));
+  }
+
+  private embedText(text: string): number[] {
+    const weights = new Map<string, number>();
+    const add = (feature: string, weight: number) =>
+      weights.set(feature, (weights.get(feature) ?? 0) + weight);
+
+    for (const term of tokenize(text)) {
+      add(`w:${term}`, 1);
+
+      const synonym = SYNONYMS.get(term);
+      if (synonym) {
+        add(synonym, SYNONYM_WEIGHT);
+      }
+
+      const padded = `#${term}#`;
+      for (let i = 0; i + 3 <= padded.length; i++) {
+        add(`t:${padded.slice(i, i + 3)}`, TRIGRAM_WEIGHT);
+      }
+    }
+
+    const vector = new Array<number>(this.dimensions).fill(0);
+    for (const [feature, weight] of weights) {
+      const h = hash(feature);
+      // The top bit picks a sign so that colliding features tend to cancel out;
+      // repeated features grow logarithmically so long content does not dominate
+      const sign = h & 0x80000000 ? -1 : 1;
+      vector[h % this.dimensions] += sign * (weight > 1 ? 1 + Math.log(weight) : weight);
+    }
+
+    return normalizeVector(vector);
+  }
+}
@@ -0,0 +1,65 @@
+import { EmbeddingProvider } from './provider.js';
+
+const BATCH_SIZE = 64;
+const REQUEST_TIMEOUT_MS = 60_000;
+
+export interface OpenAICompatibleProviderOptions {
+  /** Base URL of the API, e.g. http://localhost:11434/v1 for Ollama */
+  baseUrl: string;
+  model: string;
+  apiKey?: string;
+}
+
+interface EmbeddingsResponse {
+  data: Array<{ embedding: number[]; index: number }>;
+}
+
+/**
+ * Calls the `/embeddings` endpoint of an OpenAI-compatible server, intended
+ * for local runtimes such as Ollama, LM Studio or llama.cpp.
+ */
+export class OpenAICompatibleProvider implements EmbeddingProvider {
+  readonly id: string;
+  private options: OpenAICompatibleProviderOptions;
+
+  constructor(options: OpenAICompatibleProviderOptions) {
+    this.options = { ...options, baseUrl: options.baseUrl.replace(/\/+$/, '') };
+    this.id = `openai-compatible:${options.model}@${this.options.baseUrl}`;
+  }
+
+  async embed(texts: string[], signal?: AbortSignal): Promise<number[][]> {
+    const vectors: number[][] = [];
+    for (let start = 0; start < texts.length; start += BATCH_SIZE) {
+      vectors.push(...(await this.embedBatch(texts.slice(start, start + BATCH_SIZE), signal)));
+    }
+    return vectors;
+  }
+
+  private async embedBatch(input: string[], signal?: AbortSignal): Promise<number[][]> {
+    const timeout = AbortSignal.timeout(REQUEST_TIMEOUT_MS);
+    const response = await fetch(`${this.options.baseUrl}/embeddings`, {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/json',
+        ...(this.options.apiKey ? { Authorization: `Bearer ${this.options.apiKey}` } : {}),
+      },
+      body: JSON.stringify({ model: this.options.model, input }),
+      signal: signal ? AbortSignal.any([signal, timeout]) : timeout,
+    });
+
+    if (!response.ok) {
+      throw new Error(
+        `Embeddings request failed: ${response.status} ${response.statusText}`.trim()
+      );
+    }
+
+    const { data } = (await response.json()) as EmbeddingsResponse;
+    if (!Array.isArray(data) || data.length !== input.length) {
+      throw new Error(
+        `Embeddings response has ${data?.length ?? 0} vectors for ${input.length} inputs`
+      );
+    }
+
+    return [...data].sort((a, b) => a.index - b.index).map((item) => item.embedding);
+  }
+}
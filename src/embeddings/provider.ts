@@ -0,0 +1,32 @@
+/**
+ * Turns text into fixed-length vectors whose cosine similarity reflects how
+ * related the texts are. Implementations must be deterministic for a given id,
+ * since stored vectors are reused across restarts.
+ */
+export interface EmbeddingProvider {
+  /** Identifies the provider and model; cached vectors are discarded when it changes */
+  readonly id: string;
+  embed(texts: string[], signal?: AbortSignal): Promise<number[][]>;
+}
+
+export function cosineSimilarity(a: number[], b: number[]): number {
+  if (a.length !== b.length) {
+    return 0;
+  }
+
+  let dot = 0;
+  let normA = 0;
+  let normB = 0;
+  for (let i = 0; i < a.length; i++) {
+    dot += a[i] * b[i];
+    normA += a[i] * a[i];
+    normB += b[i] * b[i];
+  }
+  return normA && normB ? dot / Math.sqrt(normA * normB) : 0;
+}
+
+/** Scales a vector to unit length, leaving zero vectors unchanged */
+export function normalizeVector(vector: number[]): number[] {
+  const norm = Math.sqrt(vector.reduce((sum, value) => sum + value * value, 0));
+  return norm ? vector.map((value) => value / norm) : vector;
+}
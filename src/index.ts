@@ -1,17 +1,72 @@
 #!/usr/bin/env node
 
+import { resolve } from 'path';
 import { SkillRegistry } from './models/registry.js';
 import { SkillExecutor } from './services/skill-executor.js';
 import { CacheManager } from './cache/cache-manager.js';
 import { GitSyncService } from './services/git-sync.js';
 import { SkillParser } from './services/skill-parser.js';
 import { MCPServer } from './server.js';
+import { Skill } from './models/skill.js';
 import { config, paths } from './config.js';
 import { createLogger } from './utils/logger.js';
-import { RepositorySource } from './models/repository.js';
+import { RepositorySource, getRepositoryNamespace } from './models/repository.js';
+import { EmbeddingProvider } from './embeddings/provider.js';
+import { LocalEmbeddingProvider } from './embeddings/local-provider.js';
+import { OpenAICompatibleProvider } from './embeddings/openai-compatible-provider.js';
+import { SkillEmbeddingIndex } from './services/skill-embeddings.js';
+import { LintTargetError, formatLintReport, lintSkills } from './services/skill-linter.js';
+import { SkillRefresher, reportCollisions } from './services/skill-refresher.js';
 
 const logger = createLogger(config.logLevel);
 
+function createEmbeddingProvider(): EmbeddingProvider | undefined {
+  switch (config.embeddingsProvider) {
+    case 'local':
+      return new LocalEmbeddingProvider();
+    case 'openai':
+      return new OpenAICompatibleProvider({
+        baseUrl: config.embeddingsUrl,
+        model: config.embeddingsModel,
+        apiKey: config.embeddingsApiKey,
+      });
+    case 'none':
+      return undefined;
+  }
+}
+
+const discoveryOptions = {
+  maxDepth: config.discoveryMaxDepth,
+  ignore: config.discoveryIgnore,
+};
+
+/**
+ * `lint [directory] [--json]`: checks skills the way the server would load
+ * them and exits with status 1 when any error is found.
+ */
+async function lint(args: string[]): Promise<void> {
+  const directory = args.find((arg) => !arg.startsWith('--')) ?? config.localSkillsPath;
+  if (!directory) {
+    console.error('Usage: awesome-agent-skills-mcp lint <directory> [--json]');
+    process.exit(2);
+  }
+
+  // Diagnostics are part of the report; the parser's own warnings would repeat them
+  logger.setLevel('error');
+  let report;
+  try {
+    report = await lintSkills(resolve(directory), discoveryOptions);
+  } catch (error) {
+    if (error instanceof LintTargetError) {
+      console.error(error.message);
+      process.exit(2);
+    }
+    throw error;
+  }
+  console.log(args.includes('--json') ? JSON.stringify(report, null, 2) : formatLintReport(report));
+  process.exitCode = report.errorCount > 0 ? 1 : 0;
+}
+
 async function main(): Promise<void> {
   logger.info('Starting Awesome Agent Skills MCP Server...');
   logger.info(`Cache directory: ${paths.cacheDir}`);
@@ -59,9 +114,35 @@ async function main(): Promise<void> {
     );
 
     // Initialize skill parser
-    const skillParser = new SkillParser();
+    const skillParser = new SkillParser(discoveryOptions);
     await skillParser.loadOverrides(paths.overridesFile);
 
+    // Parses repository skills plus local skills (if configured) without touching
+    // the registry, so a failed or cancelled load leaves the current skills intact
+    const parseAllSkills = async (
+      options: { signal?: AbortSignal; onProgress?: (message: string) => void } = {}
+    ): Promise<Skill[]> => {
+      const skills = await skillParser.parseSkillsFromRepo(paths.repoDir, 'repository', {
+        namespace: getRepositoryNamespace(config.skillsRepoUrl) ?? 'repository',
+        signal: options.signal,
+        onProgress: (completed, total) =>
+          options.onProgress?.(`Parsed ${completed} of ${total} repository skills`),
+      });
+
+      if (config.localSkillsPath) {
+        logger.info('Loading local skills...');
+        const localSkills = await skillParser.parseSkillsFromRepo(config.localSkillsPath, 'local', {
+          namespace: 'local',
+          signal: options.signal,
+          onProgress: (completed, total) =>
+            options.onProgress?.(`Parsed ${completed} of ${total} local skills`),
+        });
+        skills.push(...localSkills);
+      }
+
+      return skills;
+    };
+
     // Sync with repository
     logger.info('Syncing with skills repository...');
     const syncResult = await gitSync.initialize();
@@ -69,25 +150,8 @@ async function main(): Promise<void> {
     if (syncResult.success) {
       if (syncResult.skillsChanged || registry.getSkillCount() === 0) {
         logger.info('Loading skills from repository...');
-        const skills = await skillParser.parseSkillsFromRepo(paths.repoDir, 'repository');
-
-        // Clear existing skills and add new ones
-        registry.clear();
-        for (const skill of skills) {
-          registry.registerSkill(skill);
-        }
-
-        // Load local skills if configured
-        if (config.localSkillsPath) {
-          logger.info('Loading local skills...');
-          const localSkills = await skillParser.parseSkillsFromRepo(
-            config.localSkillsPath,
-            'local'
-          );
-          for (const skill of localSkills) {
-            registry.registerSkill(skill);
-          }
-        }
+        registry.replaceSkills(await parseAllSkills());
+        reportCollisions(registry);
 
         // Save to cache
         await cacheManager.saveSkills(registry);
@@ -101,58 +165,35 @@ async function main(): Promise<void> {
     }
 
     // Create skill executor
-    const executor = new SkillExecutor(registry);
-
-    // Define refresh callback for manual refresh via MCP tool
-    const handleRefresh = async () => {
-      const oldCount = registry.getSkillCount();
-      logger.info('Manual refresh triggered via MCP tool...');
+    const executor = new SkillExecutor(registry, { autoResolve: config.autoResolveSkills });
 
-      const result = await gitSync.sync();
+    // Semantic search; embeds in the background so a slow provider does not delay startup
+    const embeddingProvider = createEmbeddingProvider();
+    const embeddings = embeddingProvider
+      ? new SkillEmbeddingIndex(registry, embeddingProvider, cacheManager)
+      : undefined;
+    embeddings?.start().catch((error) => logger.warn('Failed to start semantic search:', error));
 
-      if (result.success && result.skillsChanged) {
-        const skills = await skillParser.parseSkillsFromRepo(paths.repoDir, 'repository');
-        registry.clear();
-        for (const skill of skills) {
-          registry.registerSkill(skill);
-        }
-
-        // Load local skills if configured
-        if (config.localSkillsPath) {
-          const localSkills = await skillParser.parseSkillsFromRepo(
-            config.localSkillsPath,
-            'local'
-          );
-          for (const skill of localSkills) {
-            registry.registerSkill(skill);
-          }
-        }
-
-        await cacheManager.saveSkills(registry);
-        registry.setLastSync(new Date());
-        mcpServer.notifyToolsChanged();
-
-        const newCount = registry.getSkillCount();
-        return {
-          success: true,
-          skillsUpdated: newCount,
-          skillsAdded: Math.max(0, newCount - oldCount),
-          skillsRemoved: Math.max(0, oldCount - newCount),
-          message: `Skills refreshed successfully. Now have ${newCount} skills.`,
-        };
-      }
-
-      return {
-        success: result.success,
-        skillsUpdated: registry.getSkillCount(),
-        skillsAdded: 0,
-        skillsRemoved: 0,
-        message: result.success ? 'No changes detected' : result.message,
-      };
-    };
+    // Manual refreshes via the refresh_skills tool
+    const refresher = new SkillRefresher(registry, {
+      sync: (signal) => gitSync.sync(signal),
+      parseSkills: parseAllSkills,
+      saveSkills: (skills) => cacheManager.saveSkills(skills),
+      onReload: () => mcpServer.notifySkillsChanged(),
+    });
 
     // Create and start MCP server
-    const mcpServer = new MCPServer(registry, executor, handleRefresh);
+    const mcpServer = new MCPServer(registry, executor, (options) => refresher.refresh(options), {
+      skillTools: {
+        enabled: config.skillTools,
+        allowlist: config.skillToolsAllowlist,
+        maxTools: config.skillToolsMax,
+      },
+      embeddings,
+      lint: config.localSkillsPath
+        ? { root: config.localSkillsPath, discovery: discoveryOptions }
+        : undefined,
+    });
 
     // Handle graceful shutdown
     process.on('SIGINT', async () => {
@@ -177,20 +218,14 @@ async function main(): Promise<void> {
         }
         isSyncing = true;
         try {
+          // startAutoSync has already pulled the new commits; reload from the clone
           logger.info('Auto-sync triggered, refreshing skills...');
-          const result = await gitSync.sync();
-
-          if (result.success && result.skillsChanged) {
-            const skills = await skillParser.parseSkillsFromRepo(paths.repoDir, 'repository');
-            registry.clear();
-            for (const skill of skills) {
-              registry.registerSkill(skill);
-            }
-            await cacheManager.saveSkills(registry);
-            registry.setLastSync(new Date());
-            mcpServer.notifyToolsChanged();
-            logger.info(`Auto-sync completed: ${registry.getSkillCount()} skills loaded`);
-          }
+          registry.replaceSkills(await parseAllSkills());
+          reportCollisions(registry);
+          await cacheManager.saveSkills(registry);
+          registry.setLastSync(new Date());
+          mcpServer.notifySkillsChanged();
+          logger.info(`Auto-sync completed: ${registry.getSkillCount()} skills loaded`);
         } catch (error) {
           logger.error('Auto-sync callback failed:', error);
         } finally {
@@ -200,11 +235,23 @@ async function main(): Promise<void> {
     }
 
     // Start the server
-    await mcpServer.start();
+    await mcpServer.start({
+      type: config.transport,
+      host: config.httpHost,
+      port: config.httpPort,
+      sessionIdleTimeoutMs: config.httpSessionTimeoutMinutes * 60 * 1000,
+    });
   } catch (error) {
     logger.error('Failed to start server:', error);
     process.exit(1);
   }
 }
 
-main();
+if (process.argv[2] === 'lint') {
+  lint(process.argv.slice(3)).catch((error) => {
+    logger.error('Failed to lint skills:', error);
+    process.exit(2);
+  });
+} else {
+  main();
+}
@@ -1,57 +1,279 @@
 import { z } from 'zod';
 
-export const parameterTypeSchema = z.enum(['string', 'number', 'boolean', 'object', 'array']);
+export const parameterTypeSchema = z.enum([
+  'string',
+  'number',
+  'integer',
+  'boolean',
+  'object',
+  'array',
+]);
+
+export type ParameterType = z.infer<typeof parameterTypeSchema>;
+
+/** The JSON Schema keywords a value may be constrained with */
+export interface ValueSchema {
+  type: ParameterType;
+  description?: string;
+  enum?: unknown[];
+  default?: unknown;
+  examples?: unknown[];
+  minimum?: number;
+  maximum?: number;
+  minLength?: number;
+  maxLength?: number;
+  pattern?: string;
+  minItems?: number;
+  maxItems?: number;
+  /** Schema of array elements */
+  items?: ValueSchema;
+  /** Schemas of object properties */
+  properties?: Record<string, ValueSchema>;
+  /** Object properties that must be present */
+  required?: string[];
+}
+
+const constraintShape = {
+  enum: z.array(z.any()).optional(),
+  default: z.any().optional(),
+  examples: z.array(z.any()).optional(),
+  minimum: z.number().optional(),
+  maximum: z.number().optional(),
+  minLength: z.number().int().min(0).optional(),
+  maxLength: z.number().int().min(0).optional(),
+  pattern: z
+    .string()
+    .refine(isValidPattern, { message: 'Must be a valid regular expression' })
+    .optional(),
+  minItems: z.number().int().min(0).optional(),
+  maxItems: z.number().int().min(0).optional(),
+};
+
+export const valueSchemaSchema: z.ZodType<ValueSchema> = z.lazy(() =>
+  z.object({
+    type: parameterTypeSchema,
+    description: z.string().optional(),
+    ...constraintShape,
+    items: valueSchemaSchema.optional(),
+    properties: z.record(valueSchemaSchema).optional(),
+    required: z.array(z.string()).optional(),
+  })
+);
 
 export const parameterSchemaSchema = z.object({
   name: z.string().regex(/^[a-zA-Z_$][a-zA-Z0-9_$]*$/, 'Must be a valid JavaScript identifier'),
   type: parameterTypeSchema,
   description: z.string().min(1).max(1000),
   required: z.boolean().default(false),
-  default: z.any().optional(),
-  enum: z.array(z.any()).optional(),
+  ...constraintShape,
+  items: valueSchemaSchema.optional(),
+  properties: z.record(valueSchemaSchema).optional(),
+  /** Required properties of an object parameter (`required` says whether the parameter is) */
+  requiredProperties: z.array(z.string()).optional(),
 });
 
 export type ParameterSchema = z.infer<typeof parameterSchemaSchema>;
 
-export function validateParameterValue(
-  param: ParameterSchema,
-  value: unknown
-): { valid: boolean; error?: string } {
+function isValidPattern(pattern: string): boolean {
   try {
-    let validator: z.ZodType<unknown>;
+    new RegExp(pattern);
+    return true;
+  } catch {
+    return false;
+  }
+}
 
-    switch (param.type) {
-      case 'string':
-        validator = z.string();
-        break;
-      case 'number':
-        validator = z.number();
-        break;
-      case 'boolean':
-        validator = z.boolean();
-        break;
-      case 'object':
+/** Views a parameter as a value schema, mapping `requiredProperties` back to `required` */
+function toValueSchema(param: ParameterSchema): ValueSchema {
+  return {
+    type: param.type,
+    description: param.description,
+    enum: param.enum,
+    default: param.default,
+    examples: param.examples,
+    minimum: param.minimum,
+    maximum: param.maximum,
+    minLength: param.minLength,
+    maxLength: param.maxLength,
+    pattern: param.pattern,
+    minItems: param.minItems,
+    maxItems: param.maxItems,
+    items: param.items,
+    properties: param.properties,
+    required: param.requiredProperties,
+  };
+}
+
+function buildValidator(schema: ValueSchema): z.ZodTypeAny {
+  let validator: z.ZodTypeAny;
+
+  switch (schema.type) {
+    case 'string': {
+      let string = z.string();
+      if (schema.minLength !== undefined) {
+        string = string.min(schema.minLength, `Must be at least ${schema.minLength} characters`);
+      }
+      if (schema.maxLength !== undefined) {
+        string = string.max(schema.maxLength, `Must be at most ${schema.maxLength} characters`);
+      }
+      if (schema.pattern !== undefined && isValidPattern(schema.pattern)) {
+        string = string.regex(new RegExp(schema.pattern), `Must match ${schema.pattern}`);
+      }
+      validator = string;
+      break;
+    }
+    case 'number':
+    case 'integer': {
+      let number = schema.type === 'integer' ? z.number().int('Must be an integer') : z.number();
+      if (schema.minimum !== undefined) {
+        number = number.min(schema.minimum, `Must be at least ${schema.minimum}`);
+      }
+      if (schema.maximum !== undefined) {
+        number = number.max(schema.maximum, `Must be at most ${schema.maximum}`);
+      }
+      validator = number;
+      break;
+    }
+    case 'boolean':
+      validator = z.boolean();
+      break;
+    case 'object': {
+      if (!schema.properties) {
         validator = z.record(z.any());
         break;
-      case 'array':
-        validator = z.array(z.any());
-        break;
-      default:
-        return { valid: false, error: `Unknown parameter type: ${param.type}` };
+      }
+      const required = new Set(schema.required ?? []);
+      const shape = Object.fromEntries(
+        Object.entries(schema.properties).map(([key, property]) => {
+          const propertyValidator = buildValidator(property);
+          return [key, required.has(key) ? propertyValidator : propertyValidator.optional()];
+        })
+      );
+      // Like JSON Schema, undeclared properties are allowed
+      validator = z.object(shape).passthrough();
+      break;
     }
-
-    if (param.enum && param.type === 'string') {
-      validator = validator.refine((val) => param.enum?.includes(val), {
-        message: `Value must be one of: ${param.enum?.join(', ')}`,
-      });
+    case 'array': {
+      let array = z.array(schema.items ? buildValidator(schema.items) : z.any());
+      if (schema.minItems !== undefined) {
+        array = array.min(schema.minItems, `Must have at least ${schema.minItems} items`);
+      }
+      if (schema.maxItems !== undefined) {
+        array = array.max(schema.maxItems, `Must have at most ${schema.maxItems} items`);
+      }
+      validator = array;
+      break;
     }
+  }
 
-    validator.parse(value);
+  if (schema.enum) {
+    const allowed = schema.enum;
+    validator = validator.refine((val) => allowed.includes(val), {
+      message: `Value must be one of: ${allowed.join(', ')}`,
+    });
+  }
+
+  return validator;
+}
+
+export function validateParameterValue(
+  param: ParameterSchema,
+  value: unknown
+): { valid: boolean; error?: string } {
+  if (!parameterTypeSchema.safeParse(param.type).success) {
+    return { valid: false, error: `Unknown parameter type: ${param.type}` };
+  }
+
+  const result = buildValidator(toValueSchema(param)).safeParse(value);
+  if (result.success) {
     return { valid: true };
-  } catch (error) {
-    if (error instanceof z.ZodError) {
-      return { valid: false, error: error.errors[0]?.message || 'Validation failed' };
+  }
+
+  // Nested failures name the offending property, e.g. "options.pages: Must be at least 1"
+  const issue = result.error.errors[0];
+  if (!issue) {
+    return { valid: false, error: 'Validation failed' };
+  }
+  return {
+    valid: false,
+    error: issue.path.length > 0 ? `${issue.path.join('.')}: ${issue.message}` : issue.message,
+  };
+}
+
+/**
+ * Converts a string argument (as received from MCP prompt arguments) into the
+ * parameter's declared type. Values that cannot be converted are returned as-is
+ * so that validateParameterValue reports a meaningful error.
+ */
+export function coerceParameterValue(param: ParameterSchema, value: string): unknown {
+  switch (param.type) {
+    case 'number':
+    case 'integer': {
+      const num = Number(value);
+      return value.trim() !== '' && !Number.isNaN(num) ? num : value;
     }
-    return { valid: false, error: String(error) };
+    case 'boolean':
+      if (value.toLowerCase() === 'true') {
+        return true;
+      }
+      if (value.toLowerCase() === 'false') {
+        return false;
+      }
+      return value;
+    case 'object':
+    case 'array':
+      try {
+        return JSON.parse(value);
+      } catch {
+        return value;
+      }
+    default:
+      return value;
   }
 }
+
+/** Converts a value schema to JSON Schema, keeping only the keywords that are set */
+function toJsonSchemaProperty(schema: ValueSchema): Record<string, unknown> {
+  const { items, properties, ...keywords } = schema;
+  const property: Record<string, unknown> = Object.fromEntries(
+    Object.entries(keywords).filter(([, value]) => value !== undefined)
+  );
+  if (items) {
+    property.items = toJsonSchemaProperty(items);
+  }
+  if (properties) {
+    property.properties = Object.fromEntries(
+      Object.entries(properties).map(([key, value]) => [key, toJsonSchemaProperty(value)])
+    );
+  }
+  return property;
+}
+
+/**
+ * Builds a JSON Schema object describing a set of parameters, suitable for an
+ * MCP tool inputSchema.
+ */
+export function parametersToJsonSchema(parameters: ParameterSchema[]): {
+  type: 'object';
+  properties: Record<string, Record<string, unknown>>;
+  required?: string[];
+  additionalProperties: boolean;
+} {
+  const properties: Record<string, Record<string, unknown>> = {};
+  const required: string[] = [];
+
+  for (const param of parameters) {
+    properties[param.name] = toJsonSchemaProperty(toValueSchema(param));
+
+    if (param.required) {
+      required.push(param.name);
+    }
+  }
+
+  return {
+    type: 'object',
+    properties,
+    ...(required.length > 0 ? { required } : {}),
+    additionalProperties: false,
+  };
+}
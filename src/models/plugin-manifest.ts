@@ -0,0 +1,45 @@
+import { z } from 'zod';
+
+/** A path or list of paths, as accepted by the `skills` field of plugin manifests */
+const pathListSchema = z.union([z.string(), z.array(z.string())]);
+
+/** `.claude-plugin/plugin.json`; only the fields used for skill discovery are declared */
+export const pluginManifestSchema = z
+  .object({
+    name: z.string(),
+    description: z.string().optional(),
+    /** Skill directories, or directories containing skills; defaults to `skills/` */
+    skills: pathListSchema.optional(),
+  })
+  .passthrough();
+
+export type PluginManifest = z.infer<typeof pluginManifestSchema>;
+
+export const marketplacePluginSchema = z
+  .object({
+    name: z.string(),
+    description: z.string().optional(),
+    /** Relative path of the plugin, or a remote source object (not supported here) */
+    source: z.union([z.string(), z.record(z.unknown())]),
+    skills: pathListSchema.optional(),
+  })
+  .passthrough();
+
+export type MarketplacePlugin = z.infer<typeof marketplacePluginSchema>;
+
+/** `.claude-plugin/marketplace.json` */
+export const marketplaceManifestSchema = z
+  .object({
+    name: z.string(),
+    metadata: z
+      .object({
+        /** Base directory for relative plugin sources */
+        pluginRoot: z.string().optional(),
+      })
+      .passthrough()
+      .optional(),
+    plugins: z.array(marketplacePluginSchema),
+  })
+  .passthrough();
+
+export type MarketplaceManifest = z.infer<typeof marketplaceManifestSchema>;
@@ -1,4 +1,4 @@
-import { Skill } from './skill.js';
+import { Skill, shortSkillId } from './skill.js';
 import { RepositorySource } from './repository.js';
 import { validateParameterValue } from './parameter.js';
 
@@ -7,11 +7,37 @@ export interface ValidationResult {
   errors?: string[];
 }
 
+export interface SkillChange {
+  /** Skills that were added or replaced */
+  upserted: Skill[];
+  /** Ids of skills that are no longer registered */
+  removed: string[];
+}
+
+export type SkillChangeListener = (change: SkillChange) => void;
+
+/**
+ * A short alias shared by skills from different sources, or a full id claimed
+ * by skills from several locations of which only one could be registered
+ */
+export interface SkillCollision {
+  alias: string;
+  /** Fully-qualified ids of the skills sharing the alias */
+  skillIds: string[];
+  /** Locations of the skills claiming a full id, if that is the collision */
+  sourcePaths?: string[];
+}
+
 export class SkillRegistry {
   private skills: Map<string, Skill> = new Map();
+  /** Fully-qualified ids by short alias */
+  private aliases: Map<string, Set<string>> = new Map();
+  /** Source paths by full id, for ids that several skills claimed */
+  private duplicates: Map<string, Set<string>> = new Map();
   private sources: RepositorySource[] = [];
   private cachePath: string;
   private lastSync: Date | null = null;
+  private listeners: Set<SkillChangeListener> = new Set();
 
   constructor(cachePath: string) {
     this.cachePath = cachePath;
@@ -30,30 +56,49 @@ export class SkillRegistry {
   registerSkill(skill: Skill): void {
     // Check if skill already exists from a lower priority source
     const existing = this.skills.get(skill.id);
-    if (existing) {
-      const existingSource = this.sources.find((s) =>
-        existing.source === 'repository'
-          ? s.type === 'git'
-          : s.type === 'local'
-      );
-      const newSource = this.sources.find((s) =>
-        skill.source === 'repository' ? s.type === 'git' : s.type === 'local'
+    if (existing && existing.sourcePath !== skill.sourcePath) {
+      // Only one of them stays reachable, so report it instead of dropping one silently
+      this.duplicates.set(
+        skill.id,
+        (this.duplicates.get(skill.id) ?? new Set([existing.sourcePath])).add(skill.sourcePath)
       );
+    }
+    if (existing && this.getPriority(skill) < this.getPriority(existing)) {
+      // Skip - existing skill has higher priority
+      return;
+    }
 
-      const existingPriority = existingSource?.priority ?? 0;
-      const newPriority = newSource?.priority ?? 0;
+    this.skills.set(skill.id, skill);
+    const alias = shortSkillId(skill.id);
+    this.aliases.set(alias, (this.aliases.get(alias) ?? new Set()).add(skill.id));
+    this.emitChange({ upserted: [skill], removed: [] });
+  }
 
-      if (newPriority < existingPriority) {
-        // Skip - existing skill has higher priority
-        return;
-      }
+  /**
+   * Returns the skills an id refers to: the skill with exactly that id, or else
+   * every skill whose short alias it is. Of several alias matches only those
+   * from the highest-priority source count, so a local skill still shadows a
+   * repository skill of the same name.
+   */
+  findSkills(id: string): Skill[] {
+    const skill = this.skills.get(id);
+    if (skill) {
+      return [skill];
     }
 
-    this.skills.set(skill.id, skill);
+    const matches = Array.from(this.aliases.get(id) ?? [], (skillId) =>
+      this.skills.get(skillId)
+    ).filter((match): match is Skill => match !== undefined);
+    const topPriority = Math.max(...matches.map((match) => this.getPriority(match)));
+    return matches
+      .filter((match) => this.getPriority(match) === topPriority)
+      .sort((a, b) => a.id.localeCompare(b.id));
   }
 
+  /** Looks a skill up by its fully-qualified id or an unambiguous short alias */
   getSkill(id: string): Skill | undefined {
-    return this.skills.get(id);
+    const matches = this.findSkills(id);
+    return matches.length === 1 ? matches[0] : undefined;
   }
 
   listSkills(): Skill[] {
@@ -61,11 +106,87 @@ export class SkillRegistry {
   }
 
   hasSkill(id: string): boolean {
-    return this.skills.has(id);
+    return this.getSkill(id) !== undefined;
+  }
+
+  /**
+   * Lists the short aliases that refer to more than one skill, and the full ids
+   * that more than one skill claimed
+   */
+  getCollisions(): SkillCollision[] {
+    const aliases = Array.from(this.aliases)
+      .filter(([, skillIds]) => skillIds.size > 1)
+      .map(([alias, skillIds]) => ({ alias, skillIds: Array.from(skillIds).sort() }));
+    const duplicates = Array.from(this.duplicates, ([id, sourcePaths]) => ({
+      alias: id,
+      skillIds: [id],
+      sourcePaths: Array.from(sourcePaths).sort(),
+    }));
+    return [...aliases, ...duplicates].sort((a, b) => a.alias.localeCompare(b.alias));
+  }
+
+  private getPriority(skill: Skill): number {
+    const source = this.sources.find((s) =>
+      skill.source === 'repository' ? s.type === 'git' : s.type === 'local'
+    );
+    return source?.priority ?? 0;
   }
 
   clear(): void {
+    const removed = Array.from(this.skills.keys());
     this.skills.clear();
+    this.aliases.clear();
+    this.duplicates.clear();
+    this.emitChange({ upserted: [], removed });
+  }
+
+  /**
+   * Replaces all skills in one synchronous step, so concurrent readers never
+   * observe a partially loaded registry. Listeners get a single change
+   * describing the difference.
+   */
+  replaceSkills(skills: Skill[]): void {
+    const previous = this.skills;
+    const listeners = this.listeners;
+
+    this.skills = new Map();
+    this.aliases = new Map();
+    this.duplicates = new Map();
+    this.listeners = new Set();
+    try {
+      for (const skill of skills) {
+        this.registerSkill(skill);
+      }
+    } finally {
+      this.listeners = listeners;
+    }
+
+    this.emitChange({
+      upserted: Array.from(this.skills.values()).filter(
+        (skill) => previous.get(skill.id) !== skill
+      ),
+      removed: Array.from(previous.keys()).filter((id) => !this.skills.has(id)),
+    });
+  }
+
+  /**
+   * Registers a listener called synchronously after every change to the set of
+   * skills. Returns a function that removes the listener.
+   */
+  onChange(listener: SkillChangeListener): () => void {
+    this.listeners.add(listener);
+    return () => {
+      this.listeners.delete(listener);
+    };
+  }
+
+  private emitChange(change: SkillChange): void {
+    if (change.upserted.length === 0 && change.removed.length === 0) {
+      return;
+    }
+    for (const listener of this.listeners) {
+      listener(change);
+    }
   }
 
   getSkillCount(): number {
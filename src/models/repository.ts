@@ -23,3 +23,17 @@ export function validateRepositorySource(source: unknown): RepositorySource {
 
   return validated;
 }
+
+/**
+ * Derives the "org/repo" namespace of a repository from its URL, e.g.
+ * "https://github.com/anthropics/skills.git" -> "anthropics/skills". Also
+ * accepts scp-style URLs ("git@github.com:anthropics/skills.git").
+ */
+export function getRepositoryNamespace(url: string): string | undefined {
+  const segments = url
+    .replace(/\/+$/, '')
+    .replace(/\.git$/, '')
+    .split(/[/:]/)
+    .filter(Boolean);
+  return segments.length >= 2 ? segments.slice(-2).join('/') : undefined;
+}
@@ -8,12 +8,48 @@ export const skillMetadataSchema = z.object({
   requirements: z.array(z.string()).optional(),
   sourceOrg: z.string().optional(),
   sourceRepo: z.string().optional(),
+  license: z.string().optional(),
+  /** Tools the skill may use without asking, from `allowed-tools` */
+  allowedTools: z.array(z.string()).optional(),
+  /** Environment requirements, e.g. "Requires git and network access" */
+  compatibility: z.string().optional(),
+  /** The free-form `metadata` map of the SKILL.md frontmatter */
+  customMetadata: z.record(z.string()).optional(),
+  /** Directories between the skills root and the skill, e.g. ["documents", "office"] */
+  categoryPath: z.array(z.string()).optional(),
+  /** Plugin that declared the skill in a `.claude-plugin` manifest */
+  plugin: z.string().optional(),
+  /** Frontmatter keys without a dedicated field, with nested values preserved */
+  extra: z.record(z.unknown()).optional(),
 });
 
 export type SkillMetadata = z.infer<typeof skillMetadataSchema>;
 
+export const skillDiagnosticSchema = z.object({
+  severity: z.enum(['error', 'warning']),
+  /** Stable identifier of the check, e.g. "frontmatter-syntax" */
+  rule: z.string(),
+  message: z.string(),
+  /** 1-based line in the skill file */
+  line: z.number().int().min(1).optional(),
+});
+
+export type SkillDiagnostic = z.infer<typeof skillDiagnosticSchema>;
+
+export const skillFileSchema = z.object({
+  /** Path relative to the skill directory, with forward slashes */
+  path: z.string(),
+  size: z.number().int().min(0),
+  mimeType: z.string(),
+  /** SHA-256 of the content, hex-encoded */
+  hash: z.string(),
+});
+
+export type SkillFile = z.infer<typeof skillFileSchema>;
+
 export const skillSchema = z.object({
-  id: z.string().min(1).max(100),
+  /** Fully-qualified id, e.g. "anthropics/skills/pdf" */
+  id: z.string().min(1).max(200),
   name: z.string().min(1).max(100),
   description: z.string().min(1).max(500),
   source: z.enum(['repository', 'local']),
@@ -22,10 +58,38 @@ export const skillSchema = z.object({
   parameters: z.array(parameterSchemaSchema).optional(),
   metadata: skillMetadataSchema,
   lastUpdated: z.date(),
+  /** Problems found while parsing the skill file */
+  diagnostics: z.array(skillDiagnosticSchema).optional(),
+  /** Files bundled next to the skill file, such as scripts/ and references/ */
+  files: z.array(skillFileSchema).optional(),
 });
 
 export type Skill = z.infer<typeof skillSchema>;
 
+const ID_SEPARATOR = '/';
+
+function toIdSegment(value: string): string {
+  return value
+    .toLowerCase()
+    .replace(/[^a-z0-9]+/g, '-')
+    .replace(/^-+|-+$/g, '');
+}
+
+/**
+ * Prefixes a skill id with its namespace, usually "org/repo", so skills of the
+ * same name from different sources keep distinct ids.
+ */
+export function qualifySkillId(namespace: string, skillId: string): string {
+  return [...namespace.split(ID_SEPARATOR).map(toIdSegment), skillId]
+    .filter(Boolean)
+    .join(ID_SEPARATOR);
+}
+
+/** The short alias of a skill id: its last segment ("anthropics/skills/pdf" -> "pdf") */
+export function shortSkillId(skillId: string): string {
+  return skillId.slice(skillId.lastIndexOf(ID_SEPARATOR) + 1);
+}
+
 export const invocationErrorSchema = z.object({
   code: z.enum(['InvalidParams', 'SkillNotFound', 'ExecutionError', 'RepositoryError', 'InternalError']),
   message: z.string(),
@@ -39,6 +103,14 @@ export const invocationResultSchema = z.object({
   content: z.string().optional(),
   error: invocationErrorSchema.optional(),
   executionTime: z.number().int().min(0),
+  /** Id of the skill actually used when an unknown id was auto-resolved */
+  resolvedSkillId: z.string().optional(),
+  /** Estimated tokens in `content`, set when a detail level or token budget was requested */
+  tokens: z.number().int().min(0).optional(),
+  /** Whether sections were left out to stay within the token budget */
+  truncated: z.boolean().optional(),
+  /** Heading paths of sections left out or shortened, which can be requested with `sections` */
+  omittedSections: z.array(z.string()).optional(),
 });
 
 export type InvocationResult = z.infer<typeof invocationResultSchema>;
@@ -0,0 +1,228 @@
+import { z } from 'zod';
+import { zodToJsonSchema } from 'zod-to-json-schema';
+import { parameterSchemaSchema } from './parameter.js';
+import {
+  skillMetadataSchema,
+  skillDiagnosticSchema,
+  skillFileSchema,
+  invocationResultSchema,
+} from './skill.js';
+
+export const skillSummarySchema = z.object({
+  id: z.string(),
+  name: z.string(),
+  description: z.string(),
+  source: z.enum(['repository', 'local']),
+  parameters: z
+    .array(
+      z.object({
+        name: z.string(),
+        type: z.string(),
+        description: z.string(),
+        required: z.boolean(),
+      })
+    )
+    .optional(),
+});
+
+export type SkillSummary = z.infer<typeof skillSummarySchema>;
+
+export const facetCountSchema = z.object({
+  value: z.string(),
+  count: z.number().int().min(1),
+});
+
+export type FacetCount = z.infer<typeof facetCountSchema>;
+
+/** Value counts over every skill matching a list_skills query, not just the page */
+export const skillFacetsSchema = z.object({
+  tags: z.array(facetCountSchema),
+  orgs: z.array(facetCountSchema),
+  repos: z.array(facetCountSchema),
+  authors: z.array(facetCountSchema),
+});
+
+export type SkillFacets = z.infer<typeof skillFacetsSchema>;
+
+export const listSkillsOutputSchema = z.object({
+  skills: z.array(skillSummarySchema),
+  total: z.number().int().min(0),
+  nextCursor: z.string().optional(),
+  facets: skillFacetsSchema,
+  lastSync: z.string().datetime().optional(),
+});
+
+export const searchSkillsOutputSchema = z.object({
+  query: z.string(),
+  mode: z.enum(['keyword', 'semantic', 'hybrid']),
+  results: z.array(
+    z.object({
+      id: z.string(),
+      name: z.string(),
+      description: z.string(),
+      source: z.enum(['repository', 'local']),
+      score: z.number().min(0),
+      matchedFields: z.array(z.enum(['name', 'tags', 'description', 'content'])),
+      snippet: z.string().optional(),
+      similarity: z.number().optional(),
+    })
+  ),
+  total: z.number().int().min(0),
+  nextCursor: z.string().optional(),
+});
+
+export const recommendSkillsOutputSchema = z.object({
+  task: z.string(),
+  recommendations: z.array(
+    z.object({
+      id: z.string(),
+      name: z.string(),
+      description: z.string(),
+      score: z.number().min(0).max(1),
+      reason: z.string(),
+    })
+  ),
+});
+
+export const tocEntrySchema = z.object({
+  title: z.string(),
+  /** Heading level, 1 for "#" through 6 */
+  level: z.number().int().min(1).max(6),
+  /** Titles from the outermost heading down to this one */
+  path: z.array(z.string()),
+  /** Characters in the section, subsections included */
+  size: z.number().int().min(0),
+  /** Estimated tokens in the section, subsections included */
+  tokens: z.number().int().min(0),
+});
+
+export type TocEntry = z.infer<typeof tocEntrySchema>;
+
+export const getSkillOutputSchema = z.object({
+  id: z.string(),
+  name: z.string(),
+  description: z.string(),
+  /** Omitted when only the table of contents was requested */
+  content: z.string().optional(),
+  toc: z.array(tocEntrySchema).optional(),
+  /** Estimated tokens in `content`, set when a detail level or token budget was requested */
+  tokens: z.number().int().min(0).optional(),
+  truncated: z.boolean().optional(),
+  /** Heading paths of sections left out or shortened */
+  omittedSections: z.array(z.string()).optional(),
+  source: z.enum(['repository', 'local']),
+  parameters: z.array(parameterSchemaSchema).optional(),
+  metadata: skillMetadataSchema,
+  diagnostics: z.array(skillDiagnosticSchema).optional(),
+  files: z.array(skillFileSchema).optional(),
+});
+
+export const getSkillFileOutputSchema = skillFileSchema.extend({
+  skillId: z.string(),
+  /** Content of text files */
+  text: z.string().optional(),
+  /** Base64-encoded content of binary files */
+  blob: z.string().optional(),
+});
+
+export const invokeSkillOutputSchema = invocationResultSchema;
+
+export const skillCollisionSchema = z.object({
+  /** Short id shared by the skills, e.g. "frontend-design" */
+  alias: z.string(),
+  /** Fully-qualified ids of the skills; use one of these to pick a skill */
+  skillIds: z.array(z.string()),
+  /** Set when several skills claimed the same full id; only one of them is loaded */
+  sourcePaths: z.array(z.string()).optional(),
+});
+
+export const refreshSkillsOutputSchema = z.object({
+  success: z.boolean(),
+  skillsUpdated: z.number().int().min(0).optional(),
+  skillsAdded: z.number().int().min(0).optional(),
+  skillsRemoved: z.number().int().min(0).optional(),
+  /** Short ids that refer to more than one skill */
+  collisions: z.array(skillCollisionSchema).optional(),
+  message: z.string(),
+});
+
+export type RefreshResult = z.infer<typeof refreshSkillsOutputSchema>;
+
+export interface RefreshProgress {
+  progress: number;
+  total?: number;
+  message?: string;
+}
+
+export interface RefreshOptions {
+  /** Aborted when the client cancels the refresh_skills request */
+  signal?: AbortSignal;
+  onProgress?: (progress: RefreshProgress) => void;
+}
+
+export const lintDiagnosticSchema = skillDiagnosticSchema.extend({
+  /** Skill file, relative to the linted directory */
+  file: z.string(),
+  skillId: z.string().optional(),
+});
+
+export type LintDiagnostic = z.infer<typeof lintDiagnosticSchema>;
+
+export const lintSkillsOutputSchema = z.object({
+  directory: z.string(),
+  skillCount: z.number().int().min(0),
+  errorCount: z.number().int().min(0),
+  warningCount: z.number().int().min(0),
+  diagnostics: z.array(lintDiagnosticSchema),
+});
+
+export type LintReport = z.infer<typeof lintSkillsOutputSchema>;
+
+export interface CategoryNode {
+  name: string;
+  /** Names from the top-level category down to this one, joined with " > " */
+  path: string;
+  /** Skills in this category and its subcategories */
+  count: number;
+  children: CategoryNode[];
+}
+
+/** Recursive; published with `children` items referring back to the first category node */
+export const categoryNodeSchema: z.ZodType<CategoryNode> = z.lazy(() =>
+  z.object({
+    name: z.string(),
+    path: z.string(),
+    count: z.number().int().min(1),
+    children: z.array(categoryNodeSchema),
+  })
+);
+
+export const browseCategoriesOutputSchema = z.object({
+  /** The browsed category, when one was requested */
+  category: z.string().optional(),
+  categories: z.array(categoryNodeSchema),
+  /** Skills in the browsed category, or in any category */
+  total: z.number().int().min(0),
+  /** Skills without a category; only reported for the whole tree */
+  uncategorized: z.number().int().min(0).optional(),
+  /** Skills filed directly under the browsed category, not under a subcategory */
+  skills: z
+    .array(z.object({ id: z.string(), name: z.string(), description: z.string() }))
+    .optional(),
+});
+
+export type CategoryTree = z.infer<typeof browseCategoriesOutputSchema>;
+
+/**
+ * Converts a tool output schema into the JSON Schema object advertised as a
+ * tool's outputSchema, so the declared schema and validation never drift.
+ * Recursive schemas, such as parameter item schemas and category trees, refer
+ * back to their first occurrence with a `$ref` from the root.
+ */
+export function toOutputJsonSchema(
+  schema: z.ZodTypeAny
+): { type: 'object' } & Record<string, unknown> {
+  const jsonSchema = zodToJsonSchema(schema, { $refStrategy: 'root' }) as Record<string, unknown>;
+  delete jsonSchema.$schema;
+  return { ...jsonSchema, type: 'object' };
+}
@@ -1,32 +1,230 @@
+import { AsyncLocalStorage } from 'async_hooks';
+import { createHash } from 'crypto';
+import { z } from 'zod';
 import { Server } from '@modelcontextprotocol/sdk/server/index.js';
 import { StdioServerTransport } from '@modelcontextprotocol/sdk/server/stdio.js';
+import { Transport } from '@modelcontextprotocol/sdk/shared/transport.js';
 import {
   CallToolRequestSchema,
+  CallToolResult,
+  CompleteRequestSchema,
+  ErrorCode,
+  GetPromptRequestSchema,
+  ListPromptsRequestSchema,
+  ListResourcesRequestSchema,
+  ListResourceTemplatesRequestSchema,
   ListToolsRequestSchema,
+  LoggingLevel,
+  McpError,
+  Prompt,
+  ReadResourceRequestSchema,
+  Resource,
+  ResourceTemplate,
+  SetLevelRequestSchema,
+  SubscribeRequestSchema,
   Tool,
+  UnsubscribeRequestSchema,
 } from '@modelcontextprotocol/sdk/types.js';
-import { SkillExecutor } from './services/skill-executor.js';
+import {
+  DEFAULT_LIST_LIMIT,
+  ListSkillsPage,
+  MAX_LIST_LIMIT,
+  SKILL_SORT_KEYS,
+  SkillContentOptions,
+  SkillExecutor,
+  SkillSortKey,
+} from './services/skill-executor.js';
+import { CompletionResult, SkillCompleter } from './services/skill-completer.js';
+import {
+  DEFAULT_RECOMMENDATION_LIMIT,
+  MAX_RECOMMENDATION_LIMIT,
+  SkillRecommender,
+} from './services/skill-recommender.js';
+import { SkillEmbeddingIndex, combineSearchResults } from './services/skill-embeddings.js';
+import {
+  DEFAULT_SEARCH_LIMIT,
+  MAX_SEARCH_LIMIT,
+  SearchResult,
+  SkillSearchIndex,
+} from './services/skill-search.js';
+import {
+  SkillFileError,
+  SkillFileContent,
+  normalizeSkillFilePath,
+  readSkillFile,
+} from './services/skill-files.js';
+import { DiscoveryOptions } from './services/skill-discovery.js';
+import { LintTargetError, lintSkills } from './services/skill-linter.js';
+import { CategoryNotFoundError, browseCategories } from './services/skill-categories.js';
+import { buildTableOfContents } from './services/skill-sections.js';
+import { DETAIL_LEVELS, DetailLevel } from './services/skill-disclosure.js';
+import { InvocationError, Skill, SkillFile } from './models/skill.js';
+import { coerceParameterValue, parametersToJsonSchema } from './models/parameter.js';
 import { SkillRegistry } from './models/registry.js';
-import { getLogger } from './utils/logger.js';
+import {
+  RefreshOptions,
+  RefreshProgress,
+  RefreshResult,
+  browseCategoriesOutputSchema,
+  getSkillFileOutputSchema,
+  getSkillOutputSchema,
+  invokeSkillOutputSchema,
+  lintSkillsOutputSchema,
+  listSkillsOutputSchema,
+  recommendSkillsOutputSchema,
+  refreshSkillsOutputSchema,
+  searchSkillsOutputSchema,
+  toOutputJsonSchema,
+} from './models/tool-output.js';
+import { isAbsolute, relative, resolve } from 'path';
+import { HttpTransportHost } from './transports/http-transport.js';
+import { getLogger, LogLevel } from './utils/logger.js';
+import { InvalidCursorError, Page, paginate } from './utils/pagination.js';
 
 const logger = getLogger();
 
+/** The server whose client made the request being handled, if any */
+const requestContext = new AsyncLocalStorage<Server>();
+
+/** Severity order of MCP logging levels, least severe first */
+const MCP_LOG_LEVELS: LoggingLevel[] = [
+  'debug',
+  'info',
+  'notice',
+  'warning',
+  'error',
+  'critical',
+  'alert',
+  'emergency',
+];
+
+function toMcpLogLevel(level: LogLevel): LoggingLevel {
+  return level === 'warn' ? 'warning' : level;
+}
+
+function serializeLogArg(arg: unknown): unknown {
+  if (arg instanceof Error) {
+    return { name: arg.name, message: arg.message, stack: arg.stack };
+  }
+  return arg;
+}
+
+const SKILL_URI_PREFIX = 'skill://';
+const SKILL_MIME_TYPE = 'text/markdown';
+const SKILL_TOOL_PREFIX = 'skill_';
+const MAX_TOOL_NAME_LENGTH = 64;
+const DEFAULT_NOTIFICATION_DEBOUNCE_MS = 250;
+const DEFAULT_LIST_PAGE_SIZE = 100;
+
+type SearchMode = 'keyword' | 'semantic' | 'hybrid';
+
+/** The tools' advertised output schemas, converted once rather than on every tools/list */
+const OUTPUT_JSON_SCHEMAS = {
+  list_skills: toOutputJsonSchema(listSkillsOutputSchema),
+  search_skills: toOutputJsonSchema(searchSkillsOutputSchema),
+  recommend_skills: toOutputJsonSchema(recommendSkillsOutputSchema),
+  get_skill: toOutputJsonSchema(getSkillOutputSchema),
+  get_skill_file: toOutputJsonSchema(getSkillFileOutputSchema),
+  invoke_skill: toOutputJsonSchema(invokeSkillOutputSchema),
+  browse_categories: toOutputJsonSchema(browseCategoriesOutputSchema),
+  lint_skills: toOutputJsonSchema(lintSkillsOutputSchema),
+  refresh_skills: toOutputJsonSchema(refreshSkillsOutputSchema),
+};
+
+/** Inputs of get_skill and invoke_skill that choose how much of the content to return */
+const CONTENT_INPUT_PROPERTIES = {
+  sections: {
+    type: 'array',
+    items: { type: 'string' },
+    description:
+      'Only return these sections, by heading ("Examples") or heading path ("Usage > Examples")',
+  },
+  detail: {
+    type: 'string',
+    enum: [...DETAIL_LEVELS],
+    description:
+      'summary: description and section list; overview: first paragraph of each section; full: everything',
+    default: 'full',
+  },
+  max_tokens: {
+    type: 'integer',
+    minimum: 1,
+    description:
+      'Estimated token budget; the most relevant sections that fit are returned and the rest are listed as omitted',
+  },
+};
+
+export interface TransportOptions {
+  type: 'stdio' | 'http';
+  host?: string;
+  port?: number;
+  /** Closes HTTP sessions without an open request for this long */
+  sessionIdleTimeoutMs?: number;
+}
+
+export interface SkillToolsOptions {
+  enabled: boolean;
+  /** Skill ids to expose as tools; empty means every skill, up to maxTools */
+  allowlist?: string[];
+  maxTools?: number;
+}
+
+export interface LintOptions {
+  /** Directory linted by lint_skills; paths passed to the tool must stay inside it */
+  root: string;
+  discovery?: DiscoveryOptions;
+}
+
+export interface MCPServerOptions {
+  skillTools?: SkillToolsOptions;
+  /** Window in which repeated change notifications are coalesced */
+  notificationDebounceMs?: number;
+  /** Page size for tools/list, resources/list, resources/templates/list and prompts/list */
+  listPageSize?: number;
+  /** Enables semantic and hybrid modes of search_skills */
+  embeddings?: SkillEmbeddingIndex;
+  /** Enables lint_skills */
+  lint?: LintOptions;
+}
+
 export class MCPServer {
-  private server: Server;
+  private connectedServers: Set<Server> = new Set();
+  private httpHost: HttpTransportHost | null = null;
   private executor: SkillExecutor;
   private registry: SkillRegistry;
-  private onRefresh?: () => Promise<{ success: boolean; skillsUpdated: number; skillsAdded: number; skillsRemoved: number; message: string }>;
+  private completer: SkillCompleter;
+  private searchIndex: SkillSearchIndex;
+  private recommender: SkillRecommender;
+  private onRefresh?: (options?: RefreshOptions) => Promise<RefreshResult>;
+  private options: MCPServerOptions;
+  private notifyTimer: NodeJS.Timeout | null = null;
+  /** Subscribed resource URIs per connected server, with the content hash last reported */
+  private subscriptions: WeakMap<Server, Map<string, string>> = new WeakMap();
+  /** Minimum level each client asked for via logging/setLevel */
+  private clientLogLevels: WeakMap<Server, LoggingLevel> = new WeakMap();
+  private removeLogSink: (() => void) | null = null;
 
   constructor(
     registry: SkillRegistry,
     executor: SkillExecutor,
-    onRefresh?: () => Promise<{ success: boolean; skillsUpdated: number; skillsAdded: number; skillsRemoved: number; message: string }>
+    onRefresh?: (options?: RefreshOptions) => Promise<RefreshResult>,
+    options: MCPServerOptions = {}
   ) {
     this.registry = registry;
     this.executor = executor;
+    this.completer = new SkillCompleter(registry);
+    this.searchIndex = new SkillSearchIndex(registry);
+    this.recommender = new SkillRecommender(registry, this.searchIndex);
     this.onRefresh = onRefresh;
+    this.options = options;
+  }
 
-    this.server = new Server(
+  /**
+   * Creates an SDK server with all handlers installed. Stdio uses a single
+   * instance; the HTTP transport creates one per client session.
+   */
+  private createServer(): Server {
+    const server = new Server(
       {
         name: 'awesome-agent-skills-mcp',
         version: '1.0.0',
@@ -36,22 +234,51 @@ export class MCPServer {
           tools: {
             listChanged: true,
           },
+          resources: {
+            subscribe: true,
+            listChanged: true,
+          },
+          prompts: {
+            listChanged: true,
+          },
+          completions: {},
+          logging: {},
         },
       }
     );
 
-    this.setupHandlers();
+    // Handlers run with their server as context, so the log records of a
+    // request only go to the client that made it
+    const setRequestHandler = server.setRequestHandler.bind(server);
+    server.setRequestHandler = (schema, handler) =>
+      setRequestHandler(schema, (request, extra) =>
+        requestContext.run(server, () => handler(request, extra))
+      );
+
+    this.setupHandlers(server);
+    this.setupResourceHandlers(server);
+    this.setupSubscriptionHandlers(server);
+    this.setupPromptHandlers(server);
+    this.setupCompletionHandlers(server);
+    this.setupLoggingHandlers(server);
+
+    // Forward log records to clients once the first server exists
+    this.removeLogSink ??= logger.addSink((level, message, args) =>
+      this.forwardLogRecord(level, message, args)
+    );
+    return server;
   }
 
-  private setupHandlers(): void {
+  private setupHandlers(server: Server): void {
     // List available tools
-    this.server.setRequestHandler(ListToolsRequestSchema, async () => {
+    server.setRequestHandler(ListToolsRequestSchema, async (request) => {
       logger.debug('Handling tools/list request');
 
       const tools: Tool[] = [
         {
           name: 'list_skills',
-          description: 'List all available agent skills that can be invoked',
+          description:
+            'List agent skills with filters and facet counts for tags, orgs, repos and authors',
           inputSchema: {
             type: 'object',
             properties: {
@@ -65,39 +292,134 @@ export class MCPServer {
                 description: 'Filter by skill source',
                 default: 'all',
               },
+              tags: {
+                type: 'array',
+                items: { type: 'string' },
+                description: 'Only skills with these tags',
+              },
+              tag_match: {
+                type: 'string',
+                enum: ['any', 'all'],
+                description: 'Whether skills need any or all of the given tags',
+                default: 'any',
+              },
+              org: {
+                type: 'string',
+                description: 'Only skills from this source organization, e.g. "trailofbits"',
+              },
+              repo: {
+                type: 'string',
+                description: 'Only skills from this source repository',
+              },
+              author: {
+                type: 'string',
+                description: 'Only skills by this author',
+              },
+              has_parameters: {
+                type: 'boolean',
+                description: 'Only skills that do (true) or do not (false) take parameters',
+              },
+              sort: {
+                type: 'string',
+                enum: [...SKILL_SORT_KEYS],
+                description: 'Field to sort skills by',
+                default: 'name',
+              },
+              order: {
+                type: 'string',
+                enum: ['asc', 'desc'],
+                description: 'Sort direction (defaults to newest first for lastUpdated)',
+              },
+              cursor: {
+                type: 'string',
+                description: 'Opaque nextCursor from a previous call, to fetch the next page',
+              },
+              limit: {
+                type: 'integer',
+                minimum: 1,
+                maximum: MAX_LIST_LIMIT,
+                description: 'Maximum number of skills to return',
+                default: DEFAULT_LIST_LIMIT,
+              },
             },
           },
-          outputSchema: {
+          outputSchema: OUTPUT_JSON_SCHEMAS.list_skills,
+          annotations: {
+            readOnlyHint: true,
+            openWorldHint: false,
+          },
+        },
+        {
+          name: 'search_skills',
+          description:
+            'Search skills by relevance across names, tags, descriptions and full content',
+          inputSchema: {
             type: 'object',
             properties: {
-              skills: {
+              query: {
+                type: 'string',
+                description: 'Words describing the task or topic, e.g. "fill pdf forms"',
+              },
+              mode: {
+                type: 'string',
+                enum: ['keyword', 'semantic', 'hybrid'],
+                description:
+                  'keyword matches words, semantic matches meaning (e.g. "spreadsheet" finds xlsx skills), hybrid combines both',
+                default: this.options.embeddings ? 'hybrid' : 'keyword',
+              },
+              cursor: {
+                type: 'string',
+                description: 'Opaque nextCursor from a previous call, to fetch the next page',
+              },
+              limit: {
+                type: 'integer',
+                minimum: 1,
+                maximum: MAX_SEARCH_LIMIT,
+                description: 'Maximum number of results to return',
+                default: DEFAULT_SEARCH_LIMIT,
+              },
+            },
+            required: ['query'],
+          },
+          outputSchema: OUTPUT_JSON_SCHEMAS.search_skills,
+          annotations: {
+            readOnlyHint: true,
+            openWorldHint: false,
+          },
+        },
+        {
+          name: 'recommend_skills',
+          description:
+            'Recommend skills for a task, using its description and any files or languages involved',
+          inputSchema: {
+            type: 'object',
+            properties: {
+              task: {
+                type: 'string',
+                description:
+                  'What you are trying to do, e.g. "write a Stripe webhook handler in Next.js"',
+              },
+              files: {
                 type: 'array',
-                items: {
-                  type: 'object',
-                  properties: {
-                    id: { type: 'string' },
-                    name: { type: 'string' },
-                    description: { type: 'string' },
-                    source: { type: 'string' },
-                    parameters: {
-                      type: 'array',
-                      items: {
-                        type: 'object',
-                        properties: {
-                          name: { type: 'string' },
-                          type: { type: 'string' },
-                          description: { type: 'string' },
-                          required: { type: 'boolean' },
-                        },
-                      },
-                    },
-                  },
-                },
+                items: { type: 'string' },
+                description: 'Paths of files involved, used as technology hints',
+              },
+              languages: {
+                type: 'array',
+                items: { type: 'string' },
+                description: 'Languages or frameworks in use, e.g. "typescript"',
+              },
+              limit: {
+                type: 'integer',
+                minimum: 1,
+                maximum: MAX_RECOMMENDATION_LIMIT,
+                description: 'Maximum number of skills to recommend',
+                default: DEFAULT_RECOMMENDATION_LIMIT,
               },
-              total: { type: 'number' },
-              lastSync: { type: 'string', format: 'date-time' },
             },
+            required: ['task'],
           },
+          outputSchema: OUTPUT_JSON_SCHEMAS.recommend_skills,
           annotations: {
             readOnlyHint: true,
             openWorldHint: false,
@@ -111,42 +433,43 @@ export class MCPServer {
             properties: {
               skill_id: {
                 type: 'string',
-                description: 'Unique identifier of the skill',
+                description: 'Skill id (org/repo/skill), or its short id when unambiguous',
               },
+              toc: {
+                type: 'boolean',
+                description:
+                  'Return a table of contents with the estimated size of each section; without sections, the content is omitted',
+                default: false,
+              },
+              ...CONTENT_INPUT_PROPERTIES,
             },
             required: ['skill_id'],
           },
-          outputSchema: {
+          outputSchema: OUTPUT_JSON_SCHEMAS.get_skill,
+          annotations: {
+            readOnlyHint: true,
+            openWorldHint: false,
+          },
+        },
+        {
+          name: 'get_skill_file',
+          description:
+            'Read a file bundled with a skill, such as a script or reference listed in get_skill files',
+          inputSchema: {
             type: 'object',
             properties: {
-              id: { type: 'string' },
-              name: { type: 'string' },
-              description: { type: 'string' },
-              content: { type: 'string' },
-              source: { type: 'string' },
-              parameters: {
-                type: 'array',
-                items: {
-                  type: 'object',
-                  properties: {
-                    name: { type: 'string' },
-                    type: { type: 'string' },
-                    description: { type: 'string' },
-                    required: { type: 'boolean' },
-                  },
-                },
+              skill_id: {
+                type: 'string',
+                description: 'Skill id (org/repo/skill), or its short id when unambiguous',
               },
-              metadata: {
-                type: 'object',
-                properties: {
-                  author: { type: 'string' },
-                  version: { type: 'string' },
-                  tags: { type: 'array', items: { type: 'string' } },
-                  requirements: { type: 'array', items: { type: 'string' } },
-                },
+              path: {
+                type: 'string',
+                description: 'Path relative to the skill directory, e.g. "references/forms.md"',
               },
             },
+            required: ['skill_id', 'path'],
           },
+          outputSchema: OUTPUT_JSON_SCHEMAS.get_skill_file,
           annotations: {
             readOnlyHint: true,
             openWorldHint: false,
@@ -167,27 +490,53 @@ export class MCPServer {
                 description: 'Parameters to pass to the skill',
                 additionalProperties: true,
               },
+              ...CONTENT_INPUT_PROPERTIES,
             },
             required: ['skill_id'],
           },
-          outputSchema: {
+          outputSchema: OUTPUT_JSON_SCHEMAS.invoke_skill,
+          annotations: {
+            readOnlyHint: false,
+            openWorldHint: false,
+          },
+        },
+        {
+          name: 'browse_categories',
+          description:
+            'Browse the category tree of skills (from the awesome-list headings and skill directories) with the number of skills in each category',
+          inputSchema: {
             type: 'object',
             properties: {
-              success: { type: 'boolean' },
-              content: { type: 'string' },
-              error: {
-                type: 'object',
-                properties: {
-                  code: { type: 'string' },
-                  message: { type: 'string' },
-                  details: { type: 'object' },
-                },
+              category: {
+                type: 'string',
+                description:
+                  'Category path to open, e.g. "Development > Testing"; lists its subcategories and the skills filed directly under it',
               },
-              executionTime: { type: 'number' },
             },
           },
+          outputSchema: OUTPUT_JSON_SCHEMAS.browse_categories,
           annotations: {
-            readOnlyHint: false,
+            readOnlyHint: true,
+            openWorldHint: false,
+          },
+        },
+        {
+          name: 'lint_skills',
+          description:
+            'Check local skills for problems (invalid frontmatter, parameter schemas, id collisions, schema limits) and report them by file and line',
+          inputSchema: {
+            type: 'object',
+            properties: {
+              path: {
+                type: 'string',
+                description:
+                  'Directory to lint, relative to the local skills directory; defaults to all local skills',
+              },
+            },
+          },
+          outputSchema: OUTPUT_JSON_SCHEMAS.lint_skills,
+          annotations: {
+            readOnlyHint: true,
             openWorldHint: false,
           },
         },
@@ -198,16 +547,7 @@ export class MCPServer {
             type: 'object',
             properties: {},
           },
-          outputSchema: {
-            type: 'object',
-            properties: {
-              success: { type: 'boolean' },
-              skillsUpdated: { type: 'number' },
-              skillsAdded: { type: 'number' },
-              skillsRemoved: { type: 'number' },
-              message: { type: 'string' },
-            },
-          },
+          outputSchema: OUTPUT_JSON_SCHEMAS.refresh_skills,
           annotations: {
             readOnlyHint: false,
             destructiveHint: false,
@@ -217,11 +557,12 @@ export class MCPServer {
         },
       ];
 
-      return { tools };
+      const page = this.paginateList([...tools, ...this.listSkillTools()], request.params?.cursor);
+      return { tools: page.items, nextCursor: page.nextCursor };
     });
 
     // Handle tool calls
-    this.server.setRequestHandler(CallToolRequestSchema, async (request) => {
+    server.setRequestHandler(CallToolRequestSchema, async (request, extra) => {
       const { name, arguments: args } = request.params;
       logger.debug(`Handling tool call: ${name}`, args);
 
@@ -231,74 +572,192 @@ export class MCPServer {
             const filter = (args?.filter as string) || undefined;
             const source = (args?.source as 'all' | 'repository' | 'local') || 'all';
 
-            const skills = this.executor.listSkills(filter, source);
+            let page: ListSkillsPage;
+            try {
+              page = this.executor.listSkills({
+                filter,
+                source,
+                tags: args?.tags as string[] | undefined,
+                tagMatch: args?.tag_match as 'any' | 'all' | undefined,
+                org: args?.org as string | undefined,
+                repo: args?.repo as string | undefined,
+                author: args?.author as string | undefined,
+                hasParameters: args?.has_parameters as boolean | undefined,
+                sort: args?.sort as SkillSortKey | undefined,
+                order: args?.order as 'asc' | 'desc' | undefined,
+                cursor: args?.cursor as string | undefined,
+                limit: args?.limit as number | undefined,
+              });
+            } catch (error) {
+              if (error instanceof InvalidCursorError) {
+                return this.errorResult('InvalidParams', error.message);
+              }
+              throw error;
+            }
             const lastSync = this.registry.getLastSync();
 
-            return {
-              content: [
-                {
-                  type: 'text',
-                  text: JSON.stringify({
-                    skills,
-                    total: skills.length,
-                    lastSync: lastSync?.toISOString(),
-                  }),
-                },
-              ],
-            };
+            return this.structuredResult(listSkillsOutputSchema, {
+              ...page,
+              lastSync: lastSync?.toISOString(),
+            });
+          }
+
+          case 'search_skills': {
+            const query = args?.query as string;
+            if (!query) {
+              return this.errorResult('InvalidParams', 'Missing required parameter: query');
+            }
+
+            const limit = Math.min(
+              Math.max(Math.floor((args?.limit as number) ?? DEFAULT_SEARCH_LIMIT), 1),
+              MAX_SEARCH_LIMIT
+            );
+            const mode =
+              (args?.mode as SearchMode | undefined) ??
+              (this.options.embeddings ? 'hybrid' : 'keyword');
+            if (mode !== 'keyword' && !this.options.embeddings) {
+              return this.errorResult(
+                'InvalidParams',
+                `Search mode '${mode}' needs embeddings, which are disabled`
+              );
+            }
+
+            const results = await this.searchSkills(query, mode, extra.signal);
+
+            let page: Page<SearchResult>;
+            try {
+              page = paginate(results, args?.cursor as string | undefined, limit);
+            } catch (error) {
+              if (error instanceof InvalidCursorError) {
+                return this.errorResult('InvalidParams', error.message);
+              }
+              throw error;
+            }
+
+            return this.structuredResult(searchSkillsOutputSchema, {
+              query,
+              mode,
+              results: page.items.map(({ skill, score, matchedFields, snippet, similarity }) => ({
+                id: skill.id,
+                name: skill.name,
+                description: skill.description,
+                source: skill.source,
+                score: Math.round(score * 1000) / 1000,
+                matchedFields,
+                snippet,
+                similarity:
+                  similarity === undefined ? undefined : Math.round(similarity * 1000) / 1000,
+              })),
+              total: results.length,
+              nextCursor: page.nextCursor,
+            });
+          }
+
+          case 'recommend_skills': {
+            const task = args?.task as string;
+            if (!task) {
+              return this.errorResult('InvalidParams', 'Missing required parameter: task');
+            }
+
+            const recommendations = this.recommender.recommend({
+              task,
+              files: args?.files as string[] | undefined,
+              languages: args?.languages as string[] | undefined,
+              limit: args?.limit as number | undefined,
+            });
+
+            return this.structuredResult(recommendSkillsOutputSchema, {
+              task,
+              recommendations: recommendations.map(({ skill, score, reason }) => ({
+                id: skill.id,
+                name: skill.name,
+                description: skill.description,
+                score,
+                reason,
+              })),
+            });
           }
 
           case 'get_skill': {
             const skillId = args?.skill_id as string;
             if (!skillId) {
+              return this.errorResult('InvalidParams', 'Missing required parameter: skill_id');
+            }
+
+            const contentOptions = this.getContentOptions(args);
+            const tocOnly =
+              args?.toc === true &&
+              !contentOptions.sections?.length &&
+              !contentOptions.detail &&
+              contentOptions.maxTokens === undefined;
+            const result = await this.executor.getSkillDocumentation(skillId, contentOptions);
+            const skill = this.executor.getSkill(result.resolvedSkillId ?? skillId);
+
+            if (!result.success || !skill) {
               return {
                 content: [
                   {
                     type: 'text',
-                    text: JSON.stringify({
-                      success: false,
-                      error: {
-                        code: 'InvalidParams',
-                        message: 'Missing required parameter: skill_id',
-                      },
-                    }),
+                    text: JSON.stringify(result),
                   },
                 ],
                 isError: true,
               };
             }
 
-            const result = await this.executor.getSkillDocumentation(skillId);
-            const skill = this.executor.getSkill(skillId);
+            return this.structuredResult(getSkillOutputSchema, {
+              id: skill.id,
+              name: skill.name,
+              description: skill.description,
+              content: tocOnly ? undefined : result.content,
+              tokens: result.tokens,
+              truncated: result.truncated,
+              omittedSections: result.omittedSections,
+              toc: args?.toc === true ? buildTableOfContents(skill.content) : undefined,
+              source: skill.source,
+              parameters: skill.parameters,
+              metadata: skill.metadata,
+              diagnostics: skill.diagnostics,
+              files: skill.files,
+            });
+          }
 
+          case 'get_skill_file': {
+            const skillId = args?.skill_id as string;
+            const path = args?.path as string;
+            if (!skillId || !path) {
+              return this.errorResult(
+                'InvalidParams',
+                'Missing required parameters: skill_id and path'
+              );
+            }
+
+            // Resolves the id the same way get_skill does, including suggestions
+            const result = await this.executor.getSkillDocumentation(skillId);
+            const skill = this.executor.getSkill(result.resolvedSkillId ?? skillId);
             if (!result.success || !skill) {
               return {
-                content: [
-                  {
-                    type: 'text',
-                    text: JSON.stringify(result),
-                  },
-                ],
+                content: [{ type: 'text', text: JSON.stringify(result) }],
                 isError: true,
               };
             }
 
-            return {
-              content: [
-                {
-                  type: 'text',
-                  text: JSON.stringify({
-                    id: skill.id,
-                    name: skill.name,
-                    description: skill.description,
-                    content: result.content,
-                    source: skill.source,
-                    parameters: skill.parameters,
-                    metadata: skill.metadata,
-                  }),
-                },
-              ],
-            };
+            let file: SkillFileContent;
+            try {
+              file = await readSkillFile(skill, path);
+            } catch (error) {
+              if (!(error instanceof SkillFileError)) {
+                throw error;
+              }
+              return this.errorResult('InvalidParams', error.message);
+            }
+
+            return this.structuredResult(getSkillFileOutputSchema, {
+              skillId: skill.id,
+              ...file.file,
+              text: file.text,
+              blob: file.blob,
+            });
           }
 
           case 'invoke_skill': {
@@ -306,114 +765,670 @@ export class MCPServer {
             const parameters = (args?.parameters as Record<string, unknown>) || {};
 
             if (!skillId) {
-              return {
-                content: [
-                  {
-                    type: 'text',
-                    text: JSON.stringify({
-                      success: false,
-                      error: {
-                        code: 'InvalidParams',
-                        message: 'Missing required parameter: skill_id',
-                      },
-                    }),
-                  },
-                ],
-                isError: true,
-              };
+              return this.errorResult('InvalidParams', 'Missing required parameter: skill_id');
             }
 
-            const result = await this.executor.invokeSkill(skillId, parameters);
-
-            return {
-              content: [
-                {
-                  type: 'text',
-                  text: JSON.stringify(result),
-                },
-              ],
-              isError: !result.success,
-            };
+            const result = await this.executor.invokeSkill(
+              skillId,
+              parameters,
+              this.getContentOptions(args)
+            );
+
+            return this.structuredResult(invokeSkillOutputSchema, result, !result.success);
+          }
+
+          case 'browse_categories': {
+            const category = (args?.category as string) || undefined;
+            try {
+              return this.structuredResult(
+                browseCategoriesOutputSchema,
+                browseCategories(this.registry.listSkills(), category)
+              );
+            } catch (error) {
+              if (error instanceof CategoryNotFoundError) {
+                return this.errorResult('InvalidParams', error.message);
+              }
+              throw error;
+            }
+          }
+
+          case 'lint_skills': {
+            const root = this.options.lint?.root;
+            const path = (args?.path as string) || '.';
+            const target = resolve(root ?? '.', path);
+            const fromRoot = relative(resolve(root ?? '.'), target);
+
+            if (!root) {
+              return this.errorResult(
+                'InvalidParams',
+                'lint_skills requires a local skills directory (SKILLS_LOCAL_PATH)'
+              );
+            }
+            if (fromRoot.startsWith('..') || isAbsolute(fromRoot)) {
+              return this.errorResult(
+                'InvalidParams',
+                `Path is outside the local skills directory: ${path}`
+              );
+            }
+
+            try {
+              const report = await lintSkills(target, this.options.lint?.discovery);
+              return this.structuredResult(lintSkillsOutputSchema, report);
+            } catch (error) {
+              if (!(error instanceof LintTargetError)) {
+                throw error;
+              }
+              // The reason only, so the message does not reveal the absolute root
+              return this.errorResult('InvalidParams', `Cannot lint ${path}: ${error.reason}`);
+            }
           }
 
           case 'refresh_skills': {
             if (this.onRefresh) {
-              const result = await this.onRefresh();
-              return {
-                content: [
-                  {
-                    type: 'text',
-                    text: JSON.stringify(result),
-                  },
-                ],
-                isError: !result.success,
-              };
+              // Progress notifications are chained so they arrive in order and
+              // are flushed before the result is sent
+              const progressToken = request.params._meta?.progressToken;
+              let progressSent = Promise.resolve();
+              const onProgress =
+                progressToken !== undefined
+                  ? (progress: RefreshProgress) => {
+                      progressSent = progressSent
+                        .then(() =>
+                          extra.sendNotification({
+                            method: 'notifications/progress',
+                            params: { progressToken, ...progress },
+                          })
+                        )
+                        .catch((error) => logger.debug('Failed to send progress:', error));
+                    }
+                  : undefined;
+
+              try {
+                const result = await this.onRefresh({ signal: extra.signal, onProgress });
+                await progressSent;
+                return this.structuredResult(refreshSkillsOutputSchema, result, !result.success);
+              } catch (error) {
+                if (!extra.signal.aborted) {
+                  throw error;
+                }
+                // The SDK drops responses to cancelled requests; this is only for logs
+                logger.info('Skills refresh cancelled by client');
+                return this.structuredResult(
+                  refreshSkillsOutputSchema,
+                  { success: false, message: 'Skills refresh cancelled' },
+                  true
+                );
+              }
             }
-            return {
-              content: [
-                {
-                  type: 'text',
-                  text: JSON.stringify({
-                    success: true,
-                    message: 'Skills refresh triggered. Use list_skills to see updated skills.',
-                  }),
-                },
-              ],
-            };
+            return this.structuredResult(refreshSkillsOutputSchema, {
+              success: true,
+              message: 'Skills refresh triggered. Use list_skills to see updated skills.',
+            });
           }
 
-          default:
-            return {
-              content: [
-                {
-                  type: 'text',
-                  text: JSON.stringify({
-                    success: false,
-                    error: {
-                      code: 'ExecutionError',
-                      message: `Unknown tool: ${name}`,
-                    },
-                  }),
-                },
-              ],
-              isError: true,
-            };
+          default: {
+            const skill = this.getSkillTools().get(name);
+            if (skill) {
+              const result = await this.executor.invokeSkill(skill.id, args ?? {});
+              return this.structuredResult(invokeSkillOutputSchema, result, !result.success);
+            }
+
+            return this.errorResult('ExecutionError', `Unknown tool: ${name}`);
+          }
         }
       } catch (error) {
         logger.error(`Error handling tool call ${name}:`, error);
-        return {
-          content: [
-            {
+        return this.errorResult(
+          'InternalError',
+          error instanceof Error ? error.message : String(error)
+        );
+      }
+    });
+  }
+
+  /**
+   * Builds a tool result carrying both structuredContent and, for older clients,
+   * the same JSON as a text block. The output is validated against the schema
+   * advertised as the tool's outputSchema before it is returned.
+   */
+  private structuredResult(schema: z.ZodTypeAny, data: unknown, isError?: boolean): CallToolResult {
+    const parsed = schema.safeParse(data);
+    if (!parsed.success) {
+      logger.error('Tool output does not match its output schema:', parsed.error.errors);
+      return this.errorResult(
+        'InternalError',
+        'Tool output does not match its declared output schema'
+      );
+    }
+
+    return {
+      content: [
+        {
+          type: 'text',
+          text: JSON.stringify(parsed.data),
+        },
+      ],
+      structuredContent: parsed.data,
+      ...(isError !== undefined ? { isError } : {}),
+    };
+  }
+
+  /** Builds a failed tool result carrying an invocation error */
+  private errorResult(code: InvocationError['code'], message: string): CallToolResult {
+    return {
+      content: [
+        {
+          type: 'text',
+          text: JSON.stringify({ success: false, error: { code, message } }),
+        },
+      ],
+      isError: true,
+    };
+  }
+
+  /** Reads the sections, detail and max_tokens arguments of get_skill and invoke_skill */
+  private getContentOptions(args: Record<string, unknown> | undefined): SkillContentOptions {
+    const maxTokens = args?.max_tokens as number | undefined;
+    return {
+      sections: args?.sections as string[] | undefined,
+      detail: args?.detail as DetailLevel | undefined,
+      maxTokens: maxTokens === undefined ? undefined : Math.max(Math.floor(maxTokens), 1),
+    };
+  }
+
+  /**
+   * Returns the skills exposed as dedicated tools, keyed by tool name. Bounded by
+   * the allowlist (if any) and maxTools so the tool list stays manageable.
+   */
+  private getSkillTools(): Map<string, Skill> {
+    const tools = new Map<string, Skill>();
+    const skillTools = this.options.skillTools;
+    if (!skillTools?.enabled) {
+      return tools;
+    }
+
+    const allowlist = skillTools.allowlist ?? [];
+    const candidates =
+      allowlist.length > 0
+        ? allowlist
+            .map((id) => this.registry.getSkill(id))
+            .filter((skill): skill is Skill => skill !== undefined)
+        : this.registry.listSkills().sort((a, b) => a.id.localeCompare(b.id));
+
+    const maxTools = skillTools.maxTools ?? 50;
+    if (candidates.length > maxTools) {
+      logger.debug(`Exposing ${maxTools} of ${candidates.length} skills as tools`);
+    }
+
+    for (const skill of candidates.slice(0, maxTools)) {
+      // Truncated or sanitized ids can map to the same name; number the later ones
+      const baseName = this.toSkillToolName(skill.id);
+      let name = baseName;
+      for (let index = 2; tools.has(name); index++) {
+        const suffix = `_${index}`;
+        name = `${baseName.slice(0, MAX_TOOL_NAME_LENGTH - suffix.length)}${suffix}`;
+      }
+      if (name !== baseName) {
+        logger.debug(
+          `Exposing skill ${skill.id} as ${name}: ${baseName} is taken by ${tools.get(baseName)?.id}`
+        );
+      }
+      tools.set(name, skill);
+    }
+
+    return tools;
+  }
+
+  private listSkillTools(): Tool[] {
+    return Array.from(this.getSkillTools()).map(([name, skill]) => ({
+      name,
+      title: skill.name,
+      description: skill.description,
+      inputSchema: parametersToJsonSchema(skill.parameters ?? []),
+      outputSchema: OUTPUT_JSON_SCHEMAS.invoke_skill,
+      annotations: {
+        readOnlyHint: false,
+        openWorldHint: false,
+      },
+    }));
+  }
+
+  private toSkillToolName(skillId: string): string {
+    return `${SKILL_TOOL_PREFIX}${skillId.replace(/[^a-zA-Z0-9_]+/g, '_')}`.slice(
+      0,
+      MAX_TOOL_NAME_LENGTH
+    );
+  }
+
+  private async searchSkills(
+    query: string,
+    mode: SearchMode,
+    signal: AbortSignal
+  ): Promise<SearchResult[]> {
+    const embeddings = this.options.embeddings;
+    if (mode === 'keyword' || !embeddings) {
+      return this.searchIndex.search(query);
+    }
+
+    const semanticMatches = await embeddings.search(query, signal);
+    if (mode === 'semantic') {
+      return semanticMatches.map(({ skill, similarity }) => ({
+        skill,
+        score: similarity,
+        matchedFields: [],
+        matchedTerms: [],
+        similarity,
+      }));
+    }
+    return combineSearchResults(this.searchIndex.search(query), semanticMatches);
+  }
+
+  /**
+   * Pages an MCP list result. Items must be in a stable order so that cursors
+   * stay meaningful between requests.
+   */
+  private paginateList<T>(items: T[], cursor: string | undefined): Page<T> {
+    try {
+      return paginate(items, cursor, this.options.listPageSize ?? DEFAULT_LIST_PAGE_SIZE);
+    } catch (error) {
+      if (error instanceof InvalidCursorError) {
+        throw new McpError(ErrorCode.InvalidParams, error.message);
+      }
+      throw error;
+    }
+  }
+
+  private getSortedSkills(): Skill[] {
+    return this.registry.listSkills().sort((a, b) => a.id.localeCompare(b.id));
+  }
+
+  private setupResourceHandlers(server: Server): void {
+    server.setRequestHandler(ListResourcesRequestSchema, async (request) => {
+      logger.debug('Handling resources/list request');
+
+      // Each skill is followed by its bundled files
+      const resources = this.getSortedSkills().flatMap((skill) => [
+        this.toResource(skill),
+        ...(skill.files ?? []).map((file) => this.toFileResource(skill, file)),
+      ]);
+      const page = this.paginateList(resources, request.params?.cursor);
+      return { resources: page.items, nextCursor: page.nextCursor };
+    });
+
+    server.setRequestHandler(ListResourceTemplatesRequestSchema, async (request) => {
+      logger.debug('Handling resources/templates/list request');
+
+      const resourceTemplates: ResourceTemplate[] = [
+        {
+          uriTemplate: `${SKILL_URI_PREFIX}{skill_id}`,
+          name: 'skill',
+          title: 'Agent skill',
+          description: 'Markdown instructions for an agent skill, addressed by skill id',
+          mimeType: SKILL_MIME_TYPE,
+        },
+        {
+          uriTemplate: `${SKILL_URI_PREFIX}{skill_id}/{+path}`,
+          name: 'skill-file',
+          title: 'Skill file',
+          description: 'A file bundled with an agent skill, such as a script, reference or asset',
+        },
+      ];
+
+      const page = this.paginateList(resourceTemplates, request.params?.cursor);
+      return { resourceTemplates: page.items, nextCursor: page.nextCursor };
+    });
+
+    server.setRequestHandler(ReadResourceRequestSchema, async (request) => {
+      const { uri } = request.params;
+      logger.debug(`Handling resources/read request: ${uri}`);
+
+      const { skill, path } = this.parseSkillUri(uri);
+      if (!skill) {
+        throw new McpError(ErrorCode.InvalidParams, `Resource not found: ${uri}`);
+      }
+
+      if (path !== undefined) {
+        try {
+          const { file, text, blob } = await readSkillFile(skill, path);
+          const content = text !== undefined ? { text } : { blob: blob as string };
+          return { contents: [{ uri, mimeType: file.mimeType, ...content }] };
+        } catch (error) {
+          if (error instanceof SkillFileError) {
+            throw new McpError(ErrorCode.InvalidParams, error.message);
+          }
+          throw error;
+        }
+      }
+
+      return {
+        contents: [
+          {
+            uri,
+            mimeType: SKILL_MIME_TYPE,
+            text: skill.content,
+            _meta: this.toResourceMeta(skill),
+          },
+        ],
+      };
+    });
+  }
+
+  private setupSubscriptionHandlers(server: Server): void {
+    server.setRequestHandler(SubscribeRequestSchema, async (request) => {
+      const { uri } = request.params;
+      logger.debug(`Handling resources/subscribe request: ${uri}`);
+
+      let subscriptions = this.subscriptions.get(server);
+      if (!subscriptions) {
+        subscriptions = new Map();
+        this.subscriptions.set(server, subscriptions);
+      }
+      subscriptions.set(uri, this.getResourceHash(uri));
+      return {};
+    });
+
+    server.setRequestHandler(UnsubscribeRequestSchema, async (request) => {
+      const { uri } = request.params;
+      logger.debug(`Handling resources/unsubscribe request: ${uri}`);
+
+      this.subscriptions.get(server)?.delete(uri);
+      return {};
+    });
+  }
+
+  /**
+   * Splits `skill://{skill_id}` and `skill://{skill_id}/{path}` URIs. The id is
+   * percent-encoded as a single segment, so the first slash starts the path.
+   */
+  private parseSkillUri(uri: string): { skill?: Skill; path?: string } {
+    if (!uri.startsWith(SKILL_URI_PREFIX)) {
+      return {};
+    }
+
+    const rest = uri.slice(SKILL_URI_PREFIX.length);
+    const slash = rest.indexOf('/');
+    try {
+      if (slash === -1) {
+        return { skill: this.registry.getSkill(decodeURIComponent(rest)) };
+      }
+      return {
+        skill: this.registry.getSkill(decodeURIComponent(rest.slice(0, slash))),
+        path: rest
+          .slice(slash + 1)
+          .split('/')
+          .map((segment) => decodeURIComponent(segment))
+          .join('/'),
+      };
+    } catch {
+      // Malformed percent-encoding
+      return {};
+    }
+  }
+
+  private getResourceHash(uri: string): string {
+    const { skill, path } = this.parseSkillUri(uri);
+    if (!skill) {
+      return '';
+    }
+    if (path !== undefined) {
+      const normalized = normalizeSkillFilePath(path);
+      return skill.files?.find((file) => file.path === normalized)?.hash ?? '';
+    }
+    return createHash('sha256').update(skill.content).digest('hex');
+  }
+
+  private toFileResource(skill: Skill, file: SkillFile): Resource {
+    const path = file.path.split('/').map(encodeURIComponent).join('/');
+    return {
+      uri: `${SKILL_URI_PREFIX}${encodeURIComponent(skill.id)}/${path}`,
+      name: `${skill.id}/${file.path}`,
+      title: `${skill.name}: ${file.path}`,
+      mimeType: file.mimeType,
+      _meta: { skillId: skill.id, size: file.size },
+    };
+  }
+
+  private toResource(skill: Skill): Resource {
+    return {
+      uri: `${SKILL_URI_PREFIX}${encodeURIComponent(skill.id)}`,
+      name: skill.id,
+      title: skill.name,
+      description: skill.description,
+      mimeType: SKILL_MIME_TYPE,
+      annotations: {
+        lastModified: new Date(skill.lastUpdated).toISOString(),
+      },
+      _meta: this.toResourceMeta(skill),
+    };
+  }
+
+  private toResourceMeta(skill: Skill): Record<string, unknown> {
+    return {
+      ...skill.metadata,
+      source: skill.source,
+      sourcePath: skill.sourcePath,
+      lastUpdated: new Date(skill.lastUpdated).toISOString(),
+    };
+  }
+
+  private setupPromptHandlers(server: Server): void {
+    // Prompts are derived from the live registry, so they follow every reload
+    server.setRequestHandler(ListPromptsRequestSchema, async (request) => {
+      logger.debug('Handling prompts/list request');
+
+      const page = this.paginateList(this.getSortedSkills(), request.params?.cursor);
+      return {
+        prompts: page.items.map((skill) => this.toPrompt(skill)),
+        nextCursor: page.nextCursor,
+      };
+    });
+
+    server.setRequestHandler(GetPromptRequestSchema, async (request) => {
+      const { name, arguments: args } = request.params;
+      logger.debug(`Handling prompts/get request: ${name}`, args);
+
+      const skill = this.registry.getSkill(name);
+      if (!skill) {
+        throw new McpError(ErrorCode.InvalidParams, `Prompt not found: ${name}`);
+      }
+
+      // Prompt arguments always arrive as strings; convert them to the declared types
+      const parameters: Record<string, unknown> = {};
+      for (const [key, value] of Object.entries(args ?? {})) {
+        const param = skill.parameters?.find((p) => p.name === key);
+        parameters[key] = param ? coerceParameterValue(param, value) : value;
+      }
+
+      const result = await this.executor.invokeSkill(skill.id, parameters);
+      if (!result.success) {
+        throw new McpError(
+          ErrorCode.InvalidParams,
+          result.error?.message ?? `Failed to render prompt: ${name}`,
+          result.error?.details
+        );
+      }
+
+      return {
+        description: skill.description,
+        messages: [
+          {
+            role: 'user',
+            content: {
               type: 'text',
-              text: JSON.stringify({
-                success: false,
-                error: {
-                  code: 'InternalError',
-                  message: error instanceof Error ? error.message : String(error),
-                },
-              }),
+              text: result.content ?? '',
             },
-          ],
-          isError: true,
-        };
+          },
+        ],
+      };
+    });
+  }
+
+  private setupCompletionHandlers(server: Server): void {
+    server.setRequestHandler(CompleteRequestSchema, async (request) => {
+      const { ref, argument } = request.params;
+      logger.debug(`Handling completion/complete request for ${argument.name}`);
+
+      // Prompt arguments are skill parameters, which may declare enum values
+      let completion: CompletionResult | null = null;
+      if (ref.type === 'ref/prompt') {
+        completion = this.completer.completeParameterValue(ref.name, argument.name, argument.value);
       }
+      completion ??= this.completer.completeArgument(argument.name, argument.value);
+
+      return {
+        completion: completion ?? { values: [], total: 0, hasMore: false },
+      };
     });
   }
 
-  async start(): Promise<void> {
-    const transport = new StdioServerTransport();
-    await this.server.connect(transport);
+  private setupLoggingHandlers(server: Server): void {
+    // The level only applies to what this client receives; stderr keeps LOG_LEVEL
+    server.setRequestHandler(SetLevelRequestSchema, async (request) => {
+      const { level } = request.params;
+      this.clientLogLevels.set(server, level);
+      logger.info(`Log level set to ${level} by client`);
+      return {};
+    });
+  }
+
+  /**
+   * Sends a log record to each client whose level it meets; clients that never
+   * set a level get what LOG_LEVEL lets through. Records logged while handling
+   * a request only go to the client that made it.
+   */
+  private forwardLogRecord(level: LogLevel, message: string, args: unknown[]): void {
+    const mcpLevel = toMcpLogLevel(level);
+    const origin = requestContext.getStore();
+    const recipients = this.getActiveServers().filter(
+      (server) =>
+        (!origin || server === origin) &&
+        MCP_LOG_LEVELS.indexOf(mcpLevel) >=
+          MCP_LOG_LEVELS.indexOf(
+            this.clientLogLevels.get(server) ?? toMcpLogLevel(logger.getLevel())
+          )
+    );
+    if (recipients.length === 0) {
+      return;
+    }
+
+    const data = args.length > 0 ? { message, details: args.map(serializeLogArg) } : message;
+    for (const server of recipients) {
+      server
+        .sendLoggingMessage({ level: mcpLevel, logger: 'awesome-agent-skills-mcp', data })
+        .catch(() => {
+          // The client may have disconnected; nothing useful to do
+        });
+    }
+  }
+
+  private getActiveServers(): Server[] {
+    // Only servers whose client has completed initialization may receive notifications
+    return [...this.connectedServers, ...(this.httpHost?.getServers() ?? [])].filter(
+      (server) => server.transport !== undefined && server.getClientVersion() !== undefined
+    );
+  }
+
+  private toPrompt(skill: Skill): Prompt {
+    return {
+      name: skill.id,
+      title: skill.name,
+      description: skill.description,
+      arguments: skill.parameters?.map((param) => ({
+        name: param.name,
+        description: param.description,
+        required: param.required,
+      })),
+    };
+  }
+
+  async start(options: TransportOptions = { type: 'stdio' }): Promise<void> {
+    if (options.type === 'http') {
+      this.httpHost = new HttpTransportHost(() => this.createServer(), {
+        host: options.host ?? '127.0.0.1',
+        port: options.port ?? 3000,
+        sessionIdleTimeoutMs: options.sessionIdleTimeoutMs,
+      });
+      await this.httpHost.listen();
+      const address = this.httpHost.getAddress();
+      logger.info(
+        `MCP server started on HTTP transport at http://${address?.host}:${address?.port}/mcp`
+      );
+      return;
+    }
+
+    await this.connect(new StdioServerTransport());
     logger.info('MCP server started on stdio transport');
   }
 
+  /**
+   * Connects a dedicated server instance to an already constructed transport,
+   * e.g. stdio or an in-memory transport in tests.
+   */
+  async connect(transport: Transport): Promise<void> {
+    const server = this.createServer();
+    this.connectedServers.add(server);
+    server.onclose = () => {
+      this.connectedServers.delete(server);
+    };
+    await server.connect(transport);
+  }
+
   async stop(): Promise<void> {
-    await this.server.close();
+    if (this.notifyTimer) {
+      clearTimeout(this.notifyTimer);
+      this.notifyTimer = null;
+    }
+    if (this.httpHost) {
+      await this.httpHost.close();
+      this.httpHost = null;
+    }
+    for (const server of this.connectedServers) {
+      await server.close();
+    }
+    this.searchIndex.dispose();
     logger.info('MCP server stopped');
+    this.removeLogSink?.();
+    this.removeLogSink = null;
+  }
+
+  /**
+   * Tells connected clients that the skill catalog changed, so they re-fetch
+   * tools, prompts and resources. Calls within the debounce window are
+   * coalesced into a single round of notifications.
+   */
+  notifySkillsChanged(): void {
+    if (this.notifyTimer) {
+      clearTimeout(this.notifyTimer);
+    }
+    this.notifyTimer = setTimeout(() => {
+      this.notifyTimer = null;
+      void this.sendChangeNotifications();
+    }, this.options.notificationDebounceMs ?? DEFAULT_NOTIFICATION_DEBOUNCE_MS);
   }
 
-  notifyToolsChanged(): void {
-    // This would notify connected clients that tools have changed
-    // The MCP SDK handles this automatically when we have listChanged capability
-    logger.debug('Notifying clients of tools change');
+  private async sendChangeNotifications(): Promise<void> {
+    const servers = this.getActiveServers();
+    logger.debug(`Notifying ${servers.length} client(s) of skill changes`);
+
+    await Promise.all(
+      servers.map(async (server) => {
+        try {
+          await server.sendToolListChanged();
+          await server.sendPromptListChanged();
+          await server.sendResourceListChanged();
+
+          const subscriptions = this.subscriptions.get(server);
+          for (const [uri, lastHash] of subscriptions ?? []) {
+            const hash = this.getResourceHash(uri);
+            if (hash !== lastHash) {
+              subscriptions?.set(uri, hash);
+              await server.sendResourceUpdated({ uri });
+            }
+          }
+        } catch (error) {
+          logger.warn('Failed to notify client of skill changes:', error);
+        }
+      })
+    );
   }
 }
@@ -0,0 +1,132 @@
+import { posix } from 'path';
+import { parseSections, splitIntoChunks } from './skill-sections.js';
+
+/** A skill listed in an awesome-list README */
+export interface SkillLink {
+  name: string;
+  org: string;
+  repo: string;
+  /** Branch, tag or commit named in the link */
+  ref: string;
+  /** Directory of the skill within the repository, empty for the repository root */
+  path: string;
+  /** Skill file named by a blob link, e.g. "SKILL.md" */
+  file?: string;
+  description: string;
+  url: string;
+  /** Headings enclosing the link, below the document title, e.g. ["Development", "Testing"] */
+  categoryPath: string[];
+}
+
+const LINK_REGEX = /\[([^\]]+)\]\((https:\/\/github\.com\/[^)\s]+)\)/;
+const GITHUB_URL_REGEX =
+  /^https:\/\/github\.com\/([^/]+)\/([^/]+)\/(tree|blob)\/([^/]+)\/(.+?)\/?$/;
+const LIST_ITEM_REGEX = /^[ \t]*(?:[-*+]|\d+[.)])[ \t]+(.*)$/;
+const TABLE_ROW_REGEX = /^[ \t]*\|(.*)\|?[ \t]*$/;
+
+/** Strips links, emphasis and leading emoji from a heading: "🛠️ **Dev** Tools" -> "Dev Tools" */
+function toCategoryName(title: string): string {
+  return title
+    .replace(/\[([^\]]*)\]\([^)]*\)/g, '$1')
+    .replace(/[*_`]/g, '')
+    .replace(/^[^\p{L}\p{N}]+/u, '')
+    .trim();
+}
+
+/** Plain text of a description, without emphasis or a leading "-", "–" or ":" separator */
+function toDescription(text: string): string {
+  return text
+    .replace(/\[([^\]]*)\]\([^)]*\)/g, '$1')
+    .replace(/^[\s*_]*[-–—:][ \t]*/, '')
+    .replace(/\*\*|__/g, '')
+    .trim();
+}
+
+function toSkillLink(
+  name: string,
+  url: string,
+  description: string,
+  categoryPath: string[]
+): SkillLink | undefined {
+  const match = url.replace(/[?#].*$/, '').match(GITHUB_URL_REGEX);
+  if (!match) {
+    return undefined;
+  }
+
+  const [, org, repo, kind, ref, path] = match;
+  const link = { name: name.replace(/[*_`]/g, '').trim(), org, repo, ref, url, categoryPath };
+  if (kind === 'tree') {
+    return { ...link, path, description };
+  }
+  // A blob link names the skill file; anything else is not a skill
+  if (posix.extname(path).toLowerCase() !== '.md') {
+    return undefined;
+  }
+  const dir = posix.dirname(path);
+  return { ...link, path: dir === '.' ? '' : dir, file: posix.basename(path), description };
+}
+
+/**
+ * Reads a list item such as `**[org/skill](url)** - Description` or
+ * `[skill](url): Description`. The link must start the item, so links in the
+ * middle of prose are not mistaken for skills.
+ */
+function parseListItem(item: string, categoryPath: string[]): SkillLink | undefined {
+  const match = item.match(LINK_REGEX);
+  if (!match || item.slice(0, match.index).replace(/[\s*_]/g, '') !== '') {
+    return undefined;
+  }
+  const rest = item.slice((match.index ?? 0) + match[0].length);
+  return toSkillLink(match[1], match[2], toDescription(rest), categoryPath);
+}
+
+/**
+ * Reads a table row such as `| [skill](url) | Description |`: the first cell
+ * with a GitHub link names the skill and the next non-empty cell describes it.
+ */
+function parseTableRow(row: string, categoryPath: string[]): SkillLink | undefined {
+  const cells = row.split('|').map((cell) => cell.trim());
+  const index = cells.findIndex((cell) => LINK_REGEX.test(cell));
+  if (index === -1) {
+    return undefined;
+  }
+  const match = cells[index].match(LINK_REGEX) as RegExpMatchArray;
+  const description = cells.slice(index + 1).find((cell) => toDescription(cell)) ?? '';
+  return toSkillLink(match[1], match[2], toDescription(description), categoryPath);
+}
+
+/**
+ * Lists the skills an awesome-list README links to, in document order. Skills
+ * may be list items or table rows linking to a GitHub `tree` (directory) or
+ * `blob` (skill file) URL, and each is categorized by the headings it appears
+ * under. The document title (a level-1 heading) is not a category. Links to
+ * the same URL are only listed once.
+ */
+export function parseSkillLinks(content: string): SkillLink[] {
+  const hasTitle = parseSections(content)[0]?.level === 1;
+  const links: SkillLink[] = [];
+  const seen = new Set<string>();
+
+  for (const chunk of splitIntoChunks(content)) {
+    const categoryPath = (hasTitle ? chunk.path.slice(1) : chunk.path)
+      .map(toCategoryName)
+      .filter(Boolean);
+
+    for (const line of chunk.text.split('\n')) {
+      const item = line.match(LIST_ITEM_REGEX);
+      const row = item ? null : line.match(TABLE_ROW_REGEX);
+      const link = item
+        ? parseListItem(item[1], categoryPath)
+        : row
+          ? parseTableRow(row[1], categoryPath)
+          : undefined;
+
+      if (link && !seen.has(link.url)) {
+        seen.add(link.url);
+        links.push(link);
+      }
+    }
+  }
+
+  return links;
+}
@@ -35,11 +35,11 @@ export class GitSyncService {
     }) as SimpleGit;
   }
 
-  async initialize(): Promise<GitSyncResult> {
+  async initialize(signal?: AbortSignal): Promise<GitSyncResult> {
     try {
       if (existsSync(join(this.repoDir, '.git'))) {
         logger.info('Repository already exists, checking for updates...');
-        return await this.sync();
+        return await this.sync(signal);
       }
 
       logger.info(`Cloning repository from ${this.repoUrl}...`);
@@ -47,6 +47,7 @@ export class GitSyncService {
         timeout: {
           block: 120000, // 120 seconds timeout for clone
         },
+        ...(signal ? { abort: signal } : {}),
       });
       await git.clone(this.repoUrl, this.repoDir, ['--depth', '1', '--branch', this.branch]);
 
@@ -67,20 +68,28 @@ export class GitSyncService {
     }
   }
 
-  async sync(): Promise<GitSyncResult> {
+  /**
+   * Fetches and fast-forwards the local clone. When `signal` is aborted the
+   * running git command is killed and a failed result is returned.
+   */
+  async sync(signal?: AbortSignal): Promise<GitSyncResult> {
     try {
       if (!existsSync(join(this.repoDir, '.git'))) {
-        return await this.initialize();
+        return await this.initialize(signal);
       }
 
       logger.debug('Fetching latest changes...');
 
+      const git = signal
+        ? (simpleGit(this.repoDir, { timeout: { block: 60000 }, abort: signal }) as SimpleGit)
+        : this.git;
+
       // Fetch with depth 1 to check for updates
-      await this.git.fetch(['--depth', '1', 'origin', this.branch]);
+      await git.fetch(['--depth', '1', 'origin', this.branch]);
 
       // Get current and remote HEAD
-      const currentRev = await this.git.revparse(['HEAD']);
-      const remoteRev = await this.git.revparse([`origin/${this.branch}`]);
+      const currentRev = await git.revparse(['HEAD']);
+      const remoteRev = await git.revparse([`origin/${this.branch}`]);
 
       if (currentRev === remoteRev) {
         logger.debug('Repository is up to date');
@@ -93,7 +102,8 @@ export class GitSyncService {
       }
 
       logger.info('Updates found, pulling changes...');
-      await this.git.reset(['--hard', `origin/${this.branch}`]);
+      signal?.throwIfAborted();
+      await git.reset(['--hard', `origin/${this.branch}`]);
 
       logger.info('Repository updated successfully');
       return {
@@ -0,0 +1,89 @@
+import { Skill } from '../models/skill.js';
+import { CategoryNode, CategoryTree } from '../models/tool-output.js';
+import { HEADING_PATH_SEPARATOR } from './skill-sections.js';
+
+/** Thrown when a requested category does not exist */
+export class CategoryNotFoundError extends Error {
+  constructor(category: string, available: string[]) {
+    super(
+      `Category not found: ${category}. ` +
+        `Top-level categories: ${available.length > 0 ? available.join(', ') : 'none'}`
+    );
+    this.name = 'CategoryNotFoundError';
+  }
+}
+
+/** Compares category paths case-insensitively and regardless of spacing around ">" */
+function toPathKey(path: string): string {
+  return path
+    .split('>')
+    .map((name) => name.trim().toLowerCase())
+    .join('>');
+}
+
+/**
+ * Groups skills by their category path into a tree, counting the skills below
+ * each category. Categories keep the order in which they are first seen, which
+ * for an awesome list is the order of its README.
+ */
+export function buildCategoryTree(skills: Skill[]): CategoryNode[] {
+  const roots: CategoryNode[] = [];
+
+  for (const skill of skills) {
+    let siblings = roots;
+    const path: string[] = [];
+    for (const name of skill.metadata.categoryPath ?? []) {
+      path.push(name);
+      let node = siblings.find((candidate) => candidate.name === name);
+      if (!node) {
+        node = { name, path: path.join(HEADING_PATH_SEPARATOR), count: 0, children: [] };
+        siblings.push(node);
+      }
+      node.count++;
+      siblings = node.children;
+    }
+  }
+
+  return roots;
+}
+
+function flattenCategories(nodes: CategoryNode[]): CategoryNode[] {
+  return nodes.flatMap((node) => [node, ...flattenCategories(node.children)]);
+}
+
+/**
+ * Returns the whole category tree or, given a category path such as
+ * "Development > Testing", its subcategories and the skills filed directly
+ * under it.
+ */
+export function browseCategories(skills: Skill[], category?: string): CategoryTree {
+  const tree = buildCategoryTree(skills);
+
+  if (!category) {
+    const uncategorized = skills.filter((skill) => !skill.metadata.categoryPath?.length).length;
+    return { categories: tree, total: skills.length - uncategorized, uncategorized };
+  }
+
+  const node = flattenCategories(tree).find(
+    (candidate) => toPathKey(candidate.path) === toPathKey(category)
+  );
+  if (!node) {
+    throw new CategoryNotFoundError(
+      category,
+      tree.map((root) => root.name)
+    );
+  }
+
+  const direct = skills
+    .filter(
+      (skill) => (skill.metadata.categoryPath ?? []).join(HEADING_PATH_SEPARATOR) === node.path
+    )
+    .sort((a, b) => a.id.localeCompare(b.id));
+
+  return {
+    category: node.path,
+    categories: node.children,
+    total: node.count,
+    skills: direct.map(({ id, name, description }) => ({ id, name, description })),
+  };
+}
@@ -0,0 +1,155 @@
+import { SkillRegistry } from '../models/registry.js';
+
+/** Maximum number of values returned by a completion request, per the MCP spec */
+export const MAX_COMPLETION_VALUES = 100;
+
+export interface CompletionResult {
+  values: string[];
+  total: number;
+  hasMore: boolean;
+}
+
+/**
+ * Scores how well a candidate matches what the user typed so far. Exact prefix
+ * matches rank highest, then matches at the start of a word segment, then
+ * substrings, then in-order subsequences ("sbp" -> "stripe-best-practices").
+ * Returns 0 when the candidate does not match at all.
+ */
+export function scoreMatch(candidate: string, input: string): number {
+  const value = candidate.toLowerCase();
+  const query = input.toLowerCase().trim();
+
+  if (!query) {
+    return 1;
+  }
+  if (value === query) {
+    return 5;
+  }
+  if (value.startsWith(query)) {
+    return 4;
+  }
+
+  // Also try the query normalized the way skill ids are ("Stripe Best" -> "stripe-best")
+  const normalizedQuery = query.replace(/[^a-z0-9]+/g, '-').replace(/^-+|-+$/g, '');
+  if (normalizedQuery && value.startsWith(normalizedQuery)) {
+    return 4;
+  }
+
+  const segments = value.split(/[^a-z0-9]+/);
+  if (segments.some((segment) => segment.startsWith(normalizedQuery || query))) {
+    return 3;
+  }
+  if (value.includes(query) || (normalizedQuery && value.includes(normalizedQuery))) {
+    return 2;
+  }
+
+  let position = 0;
+  for (const char of query.replace(/[^a-z0-9]/g, '')) {
+    position = value.indexOf(char, position);
+    if (position === -1) {
+      return 0;
+    }
+    position++;
+  }
+  return 1;
+}
+
+/**
+ * Ranks candidates against the typed value and returns them in the shape of an
+ * MCP completion result.
+ */
+export function rankCompletions(candidates: Iterable<string>, input: string): CompletionResult {
+  const scored: Array<{ value: string; score: number }> = [];
+
+  for (const value of new Set(candidates)) {
+    const score = scoreMatch(value, input);
+    if (score > 0) {
+      scored.push({ value, score });
+    }
+  }
+
+  scored.sort(
+    (a, b) => b.score - a.score || a.value.length - b.value.length || a.value.localeCompare(b.value)
+  );
+
+  return {
+    values: scored.slice(0, MAX_COMPLETION_VALUES).map((entry) => entry.value),
+    total: scored.length,
+    hasMore: scored.length > MAX_COMPLETION_VALUES,
+  };
+}
+
+/**
+ * Provides argument completions backed by the live skill registry.
+ */
+export class SkillCompleter {
+  private registry: SkillRegistry;
+
+  constructor(registry: SkillRegistry) {
+    this.registry = registry;
+  }
+
+  completeSkillId(input: string): CompletionResult {
+    return rankCompletions(
+      this.registry.listSkills().map((skill) => skill.id),
+      input
+    );
+  }
+
+  completeTag(input: string): CompletionResult {
+    return rankCompletions(
+      this.registry.listSkills().flatMap((skill) => skill.metadata.tags ?? []),
+      input
+    );
+  }
+
+  completeSourceOrg(input: string): CompletionResult {
+    return rankCompletions(
+      this.registry
+        .listSkills()
+        .map((skill) => skill.metadata.sourceOrg)
+        .filter((org): org is string => !!org),
+      input
+    );
+  }
+
+  /**
+   * Completes a skill parameter from its declared enum values. Returns null if
+   * the skill or parameter is unknown, or the parameter has no enum.
+   */
+  completeParameterValue(
+    skillId: string,
+    paramName: string,
+    input: string
+  ): CompletionResult | null {
+    const param = this.registry.getSkill(skillId)?.parameters?.find((p) => p.name === paramName);
+    if (!param?.enum) {
+      return null;
+    }
+    return rankCompletions(
+      param.enum.map((value) => String(value)),
+      input
+    );
+  }
+
+  /**
+   * Completes well-known argument names regardless of where they appear.
+   * Returns null when the argument is not one we know how to complete.
+   */
+  completeArgument(argumentName: string, input: string): CompletionResult | null {
+    switch (argumentName) {
+      case 'skill_id':
+      case 'skillId':
+        return this.completeSkillId(input);
+      case 'tag':
+      case 'tags':
+        return this.completeTag(input);
+      case 'org':
+      case 'source_org':
+      case 'sourceOrg':
+        return this.completeSourceOrg(input);
+      default:
+        return null;
+    }
+  }
+}
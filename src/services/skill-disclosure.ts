@@ -0,0 +1,188 @@
+import { estimateTokens } from '../utils/tokens.js';
+import { HEADING_PATH_SEPARATOR, SectionChunk, splitIntoChunks } from './skill-sections.js';
+
+export const DETAIL_LEVELS = ['summary', 'overview', 'full'] as const;
+
+export type DetailLevel = (typeof DETAIL_LEVELS)[number];
+
+export interface DisclosureOptions {
+  /**
+   * summary: the description and a list of sections; overview: the
+   * description and the first paragraph of each section; full: everything
+   */
+  detail?: DetailLevel;
+  /** Estimated token budget for the returned content */
+  maxTokens?: number;
+}
+
+export interface DisclosedContent {
+  content: string;
+  /** Estimated tokens in `content` */
+  tokens: number;
+  /** Whether sections were left out to stay within the token budget */
+  truncated: boolean;
+  /** Sections left out or shortened, named as `sections` selectors */
+  omittedSections: string[];
+}
+
+// Sections agents usually need first, and those they can most easily do without
+const PRIMARY_TITLES =
+  /\b(instructions?|usage|quick ?start|getting started|workflow|steps|how to|when to use|overview)\b/i;
+const SECONDARY_TITLES =
+  /\b(examples?|references?|appendix|troubleshooting|faq|changelog|license|credits|see also)\b/i;
+
+/** Lower ranks are kept first when the budget runs out */
+function rankChunk(chunk: SectionChunk): number {
+  if (chunk.path.length <= 1) {
+    return 0; // Text before the first heading, or the title and introduction
+  }
+  const titles = chunk.path.join(' ');
+  if (PRIMARY_TITLES.test(titles)) {
+    return 1;
+  }
+  return SECONDARY_TITLES.test(titles) ? 3 : 2;
+}
+
+/** The heading line and the first paragraph below it; a leading code block counts as one */
+function firstParagraph(text: string): string {
+  const lines = text.split('\n');
+  const kept: string[] = [];
+  let inFence = false;
+  let inBody = false;
+
+  for (const [index, line] of lines.entries()) {
+    const isHeading = index === 0 && /^#{1,6}\s/.test(line);
+    if (/^\s*(```|~~~)/.test(line)) {
+      inFence = !inFence;
+    }
+    if (!isHeading && !inFence && line.trim() === '') {
+      if (inBody) {
+        break;
+      }
+      kept.push(line);
+      continue;
+    }
+    kept.push(line);
+    inBody ||= !isHeading;
+  }
+
+  return kept.join('\n');
+}
+
+/**
+ * Names a section by the fewest trailing titles of its heading path that no
+ * other section shares, e.g. "Examples" or "Usage > Examples".
+ */
+function selectorFor(chunk: SectionChunk, chunks: SectionChunk[]): string {
+  const tail = (path: string[], length: number) =>
+    path.slice(-length).join(HEADING_PATH_SEPARATOR).toLowerCase();
+
+  for (let length = 1; length < chunk.path.length; length++) {
+    const name = tail(chunk.path, length);
+    const shared = chunks.some(
+      (other) => other !== chunk && other.path.length >= length && tail(other.path, length) === name
+    );
+    if (!shared) {
+      return chunk.path.slice(-length).join(HEADING_PATH_SEPARATOR);
+    }
+  }
+  return chunk.path.join(HEADING_PATH_SEPARATOR);
+}
+
+/**
+ * Tells the agent what was left out and how to get it, e.g.
+ * "[Truncated to fit 500 tokens. Not shown in full: Examples. Request them with `sections`.]"
+ */
+function omissionMarker(reason: string, names: string[]): string {
+  return names.length > 0
+    ? `[${reason}. Not shown in full: ${names.join('; ')}. Request them with \`sections\`.]`
+    : '';
+}
+
+function render(description: string, parts: string[], marker: string): string {
+  return [description, ...parts.map((part) => part.trim()), marker]
+    .filter((part) => part.length > 0)
+    .join('\n\n');
+}
+
+/**
+ * Returns skill content at the requested level of detail within a token
+ * budget. When the content does not fit, the description is kept and the most
+ * relevant sections are added while they fit, in document order, followed by a
+ * marker naming the omitted sections. The description and marker are always
+ * returned, even if they alone exceed the budget.
+ */
+export function discloseContent(
+  description: string,
+  content: string,
+  options: DisclosureOptions
+): DisclosedContent {
+  const detail = options.detail ?? 'full';
+  const maxTokens = options.maxTokens ?? Infinity;
+  const chunks = splitIntoChunks(content).filter(
+    (chunk) => chunk.path.length > 0 || chunk.text.trim()
+  );
+  const nameOf = (chunk: SectionChunk) => selectorFor(chunk, chunks);
+
+  if (detail === 'full' && estimateTokens(content) <= maxTokens) {
+    return { content, tokens: estimateTokens(content), truncated: false, omittedSections: [] };
+  }
+
+  if (detail === 'summary') {
+    const omitted = chunks.filter((chunk) => chunk.path.length > 0).map(nameOf);
+    const summary = render(description, [], omissionMarker('Summary only', omitted));
+    return {
+      content: summary,
+      tokens: estimateTokens(summary),
+      truncated: false,
+      omittedSections: omitted,
+    };
+  }
+
+  const parts = chunks.map((chunk) =>
+    detail === 'overview' ? firstParagraph(chunk.text) : chunk.text
+  );
+  const shortened =
+    detail === 'overview'
+      ? chunks.filter(
+          (chunk, index) => chunk.path.length > 0 && parts[index].trim() !== chunk.text.trim()
+        )
+      : [];
+
+  const omittedFrom = (indices: Set<number>) =>
+    chunks.filter((chunk, index) => chunk.path.length > 0 && !indices.has(index));
+  const pointers = (omitted: SectionChunk[]) => [
+    ...new Set([...omitted, ...shortened].map(nameOf)),
+  ];
+
+  const build = (indices: Set<number>) => {
+    const omitted = omittedFrom(indices);
+    const marker = omissionMarker(
+      omitted.length > 0 ? `Truncated to fit ${maxTokens} tokens` : 'Overview only',
+      pointers(omitted)
+    );
+    const kept = parts.filter((_, index) => indices.has(index));
+    return render(description, kept, marker);
+  };
+
+  // Greedily keep the best-ranked chunks that still fit; build() keeps document order
+  const included = new Set<number>();
+  const byRank = chunks
+    .map((chunk, index) => ({ rank: rankChunk(chunk), index }))
+    .sort((a, b) => a.rank - b.rank || a.index - b.index);
+  for (const { index } of byRank) {
+    const candidate = new Set(included).add(index);
+    if (estimateTokens(build(candidate)) <= maxTokens) {
+      included.add(index);
+    }
+  }
+
+  const result = build(included);
+  const omitted = omittedFrom(included);
+  return {
+    content: result,
+    tokens: estimateTokens(result),
+    truncated: omitted.length > 0,
+    omittedSections: pointers(omitted),
+  };
+}
@@ -0,0 +1,218 @@
+import { z } from 'zod';
+import { readFile, readdir } from 'fs/promises';
+import { existsSync } from 'fs';
+import { extname, isAbsolute, join, relative, resolve } from 'path';
+import {
+  MarketplaceManifest,
+  PluginManifest,
+  marketplaceManifestSchema,
+  pluginManifestSchema,
+} from '../models/plugin-manifest.js';
+import { getLogger } from '../utils/logger.js';
+
+const logger = getLogger();
+
+export const DEFAULT_DISCOVERY_MAX_DEPTH = 5;
+
+/** Directories never searched for skills; hidden directories are skipped as well */
+export const DEFAULT_IGNORE_PATTERNS = ['node_modules', 'dist', 'build', '__pycache__'];
+
+const SKILL_FILE = 'SKILL.md';
+const MANIFEST_DIR = '.claude-plugin';
+
+export interface DiscoveryOptions {
+  /** How many directory levels below the root to search */
+  maxDepth?: number;
+  /**
+   * Directory names or root-relative paths to skip, where `*` matches within a
+   * path segment, e.g. "vendor" or "skills/drafts/*"
+   */
+  ignore?: string[];
+}
+
+export interface DiscoveredSkill {
+  dir: string;
+  /** Directories between the search root and the skill, e.g. ["documents", "office"] */
+  categoryPath: string[];
+  /** Plugin that declared the skill, for skills listed in plugin manifests */
+  plugin?: string;
+}
+
+function toPatternRegex(pattern: string): RegExp {
+  const escaped = pattern.replace(/[.+?^${}()|[\]\\]/g, '\\$&').replace(/\*/g, '[^/]*');
+  return new RegExp(`^${escaped}$`);
+}
+
+/**
+ * Finds every directory containing a SKILL.md below `root`. Skill directories
+ * are not searched further, since their subdirectories hold scripts and
+ * references rather than other skills.
+ *
+ * With `legacyLayout`, directories directly below the root that hold any
+ * markdown file also count as skills, matching the original `skills/<name>/`
+ * layout where README.md could stand in for SKILL.md.
+ */
+export async function discoverSkillDirectories(
+  root: string,
+  options: DiscoveryOptions & { legacyLayout?: boolean } = {}
+): Promise<DiscoveredSkill[]> {
+  const maxDepth = options.maxDepth ?? DEFAULT_DISCOVERY_MAX_DEPTH;
+  const ignore = [...DEFAULT_IGNORE_PATTERNS, ...(options.ignore ?? [])].map(toPatternRegex);
+  const found: DiscoveredSkill[] = [];
+
+  const walk = async (dir: string, segments: string[]): Promise<void> => {
+    const entries = await readdir(dir, { withFileTypes: true });
+    const files = entries.filter((entry) => entry.isFile()).map((entry) => entry.name);
+
+    if (files.includes(SKILL_FILE)) {
+      found.push({ dir, categoryPath: segments.slice(0, -1) });
+      return;
+    }
+
+    const before = found.length;
+    if (segments.length < maxDepth) {
+      const subdirectories = entries
+        .filter((entry) => entry.isDirectory() && !entry.name.startsWith('.'))
+        .map((entry) => entry.name)
+        .sort((a, b) => a.localeCompare(b));
+
+      for (const name of subdirectories) {
+        const path = [...segments, name].join('/');
+        if (ignore.some((pattern) => pattern.test(name) || pattern.test(path))) {
+          logger.debug(`Skipping ignored directory: ${path}`);
+          continue;
+        }
+        await walk(join(dir, name), [...segments, name]);
+      }
+    }
+
+    if (
+      options.legacyLayout &&
+      segments.length === 1 &&
+      found.length === before &&
+      files.some((file) => extname(file) === '.md')
+    ) {
+      found.push({ dir, categoryPath: [] });
+    }
+  };
+
+  await walk(root, []);
+  return found;
+}
+
+async function readManifest<T>(
+  path: string,
+  schema: z.ZodType<T, z.ZodTypeDef, unknown>
+): Promise<T | null> {
+  if (!existsSync(path)) {
+    return null;
+  }
+  try {
+    const result = schema.safeParse(JSON.parse(await readFile(path, 'utf-8')));
+    if (result.success) {
+      return result.data;
+    }
+    logger.warn(`Ignoring invalid plugin manifest: ${path}`);
+  } catch (error) {
+    logger.warn(`Failed to read plugin manifest ${path}:`, error);
+  }
+  return null;
+}
+
+/** Resolves a manifest path, refusing paths that leave the repository */
+function resolveInside(repoDir: string, base: string, path: string): string | undefined {
+  const resolved = resolve(base, path);
+  const fromRepo = relative(resolve(repoDir), resolved);
+  return fromRepo.startsWith('..') || isAbsolute(fromRepo) ? undefined : resolved;
+}
+
+async function discoverPluginSkills(
+  repoDir: string,
+  pluginDir: string,
+  plugin: { name: string; skills?: string | string[] },
+  options: DiscoveryOptions
+): Promise<DiscoveredSkill[]> {
+  const skillPaths =
+    plugin.skills === undefined
+      ? ['skills']
+      : Array.isArray(plugin.skills)
+        ? plugin.skills
+        : [plugin.skills];
+
+  const found: DiscoveredSkill[] = [];
+  for (const skillPath of skillPaths) {
+    const dir = resolveInside(repoDir, pluginDir, skillPath);
+    if (!dir || !existsSync(dir)) {
+      logger.warn(`Plugin ${plugin.name} lists a missing skills path: ${skillPath}`);
+      continue;
+    }
+    const skills = await discoverSkillDirectories(dir, options);
+    found.push(
+      ...skills.map((skill) => ({
+        ...skill,
+        categoryPath: [plugin.name, ...skill.categoryPath],
+        plugin: plugin.name,
+      }))
+    );
+  }
+  return found;
+}
+
+/**
+ * Lists the skills declared by `.claude-plugin/marketplace.json` or, failing
+ * that, `.claude-plugin/plugin.json`. Each skill is categorized under its
+ * plugin. Returns null when the repository has neither manifest.
+ */
+export async function discoverManifestSkills(
+  repoDir: string,
+  options: DiscoveryOptions = {}
+): Promise<DiscoveredSkill[] | null> {
+  const marketplace = await readManifest<MarketplaceManifest>(
+    join(repoDir, MANIFEST_DIR, 'marketplace.json'),
+    marketplaceManifestSchema
+  );
+  if (marketplace) {
+    const pluginRoot = join(repoDir, marketplace.metadata?.pluginRoot ?? '.');
+    const found: DiscoveredSkill[] = [];
+
+    for (const plugin of marketplace.plugins) {
+      const pluginDir =
+        typeof plugin.source === 'string'
+          ? resolveInside(repoDir, pluginRoot, plugin.source)
+          : undefined;
+      if (!pluginDir) {
+        logger.warn(`Skipping plugin ${plugin.name}: only local plugin sources are supported`);
+        continue;
+      }
+
+      // Without an explicit list, the plugin's own manifest may declare its skills
+      const pluginManifest = await readManifest<PluginManifest>(
+        join(pluginDir, MANIFEST_DIR, 'plugin.json'),
+        pluginManifestSchema
+      );
+      found.push(
+        ...(await discoverPluginSkills(
+          repoDir,
+          pluginDir,
+          { name: plugin.name, skills: plugin.skills ?? pluginManifest?.skills },
+          options
+        ))
+      );
+    }
+
+    logger.info(`Found ${found.length} skills in marketplace ${marketplace.name}`);
+    return found;
+  }
+
+  const plugin = await readManifest<PluginManifest>(
+    join(repoDir, MANIFEST_DIR, 'plugin.json'),
+    pluginManifestSchema
+  );
+  if (plugin) {
+    const found = await discoverPluginSkills(repoDir, repoDir, plugin, options);
+    logger.info(`Found ${found.length} skills in plugin ${plugin.name}`);
+    return found;
+  }
+
+  return null;
+}
@@ -0,0 +1,190 @@
+import { createHash } from 'crypto';
+import { Skill } from '../models/skill.js';
+import { SkillRegistry } from '../models/registry.js';
+import { CacheManager } from '../cache/cache-manager.js';
+import { EmbeddingProvider, cosineSimilarity } from '../embeddings/provider.js';
+import { getLogger } from '../utils/logger.js';
+import { SearchResult } from './skill-search.js';
+
+const logger = getLogger();
+
+/** Semantic matches below this similarity are treated as unrelated */
+export const MIN_SIMILARITY = 0.2;
+
+export interface SemanticMatch {
+  skill: Skill;
+  /** Cosine similarity between the query and the skill, between -1 and 1 */
+  similarity: number;
+}
+
+function getEmbeddingText(skill: Skill): string {
+  const tags = (skill.metadata.tags ?? []).join(' ');
+  return [skill.name, skill.description, tags, skill.content].join('\n');
+}
+
+function getContentHash(text: string): string {
+  return createHash('sha256').update(text).digest('hex');
+}
+
+/**
+ * Keeps an embedding vector for every registered skill, persisted in the cache
+ * directory. Follows registry changes in the background and only embeds skills
+ * whose content hash changed, so restarts and refreshes stay cheap.
+ */
+export class SkillEmbeddingIndex {
+  private registry: SkillRegistry;
+  private provider: EmbeddingProvider;
+  private cacheManager: CacheManager;
+  private entries: Map<string, { hash: string; vector: number[] }> = new Map();
+  private pending: Promise<void> = Promise.resolve();
+  private updateQueued = false;
+  private unsubscribe: (() => void) | null = null;
+
+  constructor(registry: SkillRegistry, provider: EmbeddingProvider, cacheManager: CacheManager) {
+    this.registry = registry;
+    this.provider = provider;
+    this.cacheManager = cacheManager;
+  }
+
+  /**
+   * Loads cached vectors, then embeds whatever is missing and keeps following
+   * the registry. Cached vectors from a different provider are discarded.
+   */
+  async start(): Promise<void> {
+    const cache = await this.cacheManager.loadEmbeddings();
+    if (cache?.provider === this.provider.id) {
+      this.entries = new Map(Object.entries(cache.entries));
+    } else if (cache) {
+      logger.info(`Embedding provider changed to ${this.provider.id}, re-embedding skills`);
+    }
+
+    this.unsubscribe ??= this.registry.onChange(() => this.scheduleUpdate());
+    this.scheduleUpdate();
+    await this.whenIdle();
+  }
+
+  /** Stops following registry changes */
+  dispose(): void {
+    this.unsubscribe?.();
+    this.unsubscribe = null;
+  }
+
+  /** Resolves once every scheduled update has finished */
+  whenIdle(): Promise<void> {
+    return this.pending;
+  }
+
+  /**
+   * Returns registered skills ordered by similarity to the query, keeping only
+   * those at or above MIN_SIMILARITY.
+   */
+  async search(query: string, signal?: AbortSignal): Promise<SemanticMatch[]> {
+    const [queryVector] = await this.provider.embed([query], signal);
+
+    const matches: SemanticMatch[] = [];
+    for (const skill of this.registry.listSkills()) {
+      const entry = this.entries.get(skill.id);
+      if (!entry) {
+        continue;
+      }
+      const similarity = cosineSimilarity(queryVector, entry.vector);
+      if (similarity >= MIN_SIMILARITY) {
+        matches.push({ skill, similarity });
+      }
+    }
+
+    return matches.sort(
+      (a, b) => b.similarity - a.similarity || a.skill.id.localeCompare(b.skill.id)
+    );
+  }
+
+  /** Updates run one at a time; changes during an update queue one more run */
+  private scheduleUpdate(): void {
+    if (this.updateQueued) {
+      return;
+    }
+    this.updateQueued = true;
+    this.pending = this.pending.then(async () => {
+      this.updateQueued = false;
+      try {
+        await this.update();
+      } catch (error) {
+        logger.warn('Failed to update skill embeddings:', error);
+      }
+    });
+  }
+
+  private async update(): Promise<void> {
+    const skills = this.registry.listSkills();
+    const stale: Array<{ id: string; hash: string; text: string }> = [];
+
+    for (const skill of skills) {
+      const text = getEmbeddingText(skill);
+      const hash = getContentHash(text);
+      if (this.entries.get(skill.id)?.hash !== hash) {
+        stale.push({ id: skill.id, hash, text });
+      }
+    }
+
+    const registered = new Set(skills.map((skill) => skill.id));
+    const removed = Array.from(this.entries.keys()).filter((id) => !registered.has(id));
+    for (const id of removed) {
+      this.entries.delete(id);
+    }
+
+    if (stale.length === 0 && removed.length === 0) {
+      return;
+    }
+
+    if (stale.length > 0) {
+      logger.info(`Embedding ${stale.length} skills with ${this.provider.id}`);
+      const vectors = await this.provider.embed(stale.map((entry) => entry.text));
+      stale.forEach((entry, i) =>
+        this.entries.set(entry.id, { hash: entry.hash, vector: vectors[i] })
+      );
+    }
+
+    await this.cacheManager.saveEmbeddings({
+      provider: this.provider.id,
+      entries: Object.fromEntries(this.entries),
+    });
+  }
+}
+
+/**
+ * Merges keyword and semantic results. Keyword scores are scaled relative to
+ * the best keyword match so both signals count equally; skills found only by
+ * meaning are included with no matched fields.
+ */
+export function combineSearchResults(
+  keywordResults: SearchResult[],
+  semanticMatches: SemanticMatch[]
+): SearchResult[] {
+  const bestKeywordScore = keywordResults[0]?.score || 1;
+  const similarities = new Map(semanticMatches.map((match) => [match.skill.id, match.similarity]));
+  const combined = new Map<string, SearchResult>();
+
+  for (const result of keywordResults) {
+    const similarity = similarities.get(result.skill.id) ?? 0;
+    combined.set(result.skill.id, {
+      ...result,
+      score: (result.score / bestKeywordScore + similarity) / 2,
+      similarity: similarities.get(result.skill.id),
+    });
+  }
+  for (const match of semanticMatches) {
+    if (!combined.has(match.skill.id)) {
+      combined.set(match.skill.id, {
+        skill: match.skill,
+        score: match.similarity / 2,
+        matchedFields: [],
+        matchedTerms: [],
+        similarity: match.similarity,
+      });
+    }
+  }
+
+  return Array.from(combined.values()).sort(
+    (a, b) => b.score - a.score || a.skill.id.localeCompare(b.skill.id)
+  );
+}
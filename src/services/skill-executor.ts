@@ -1,71 +1,272 @@
 import { Skill, InvocationResult, createSuccessResult, createErrorResult } from '../models/skill.js';
 import { SkillRegistry } from '../models/registry.js';
+import { FacetCount, SkillFacets, SkillSummary } from '../models/tool-output.js';
 import { getLogger } from '../utils/logger.js';
+import { paginate } from '../utils/pagination.js';
+import { SkillSuggester } from './skill-suggester.js';
+import { SectionNotFoundError, selectSections } from './skill-sections.js';
+import { DisclosureOptions, discloseContent } from './skill-disclosure.js';
 
 const logger = getLogger();
 
+export const DEFAULT_LIST_LIMIT = 50;
+export const MAX_LIST_LIMIT = 200;
+
+export const SKILL_SORT_KEYS = ['name', 'source', 'lastUpdated', 'org'] as const;
+
+export type SkillSortKey = (typeof SKILL_SORT_KEYS)[number];
+
+/** Maximum number of values reported per facet */
+export const MAX_FACET_VALUES = 20;
+
+export interface SkillExecutorOptions {
+  /** Use the closest skill when an unknown id has exactly one close match */
+  autoResolve?: boolean;
+}
+
+export interface SkillContentOptions extends DisclosureOptions {
+  /** Headings or heading paths ("Usage > Examples") to return instead of the whole content */
+  sections?: string[];
+}
+
+export interface ListSkillsOptions {
+  filter?: string;
+  source?: 'all' | 'repository' | 'local';
+  tags?: string[];
+  /** Whether a skill needs any (default) or all of the given tags */
+  tagMatch?: 'any' | 'all';
+  org?: string;
+  repo?: string;
+  author?: string;
+  hasParameters?: boolean;
+  sort?: SkillSortKey;
+  /** Defaults to newest first for lastUpdated and ascending otherwise */
+  order?: 'asc' | 'desc';
+  /** Opaque cursor returned as nextCursor by a previous call */
+  cursor?: string;
+  limit?: number;
+}
+
+export interface ListSkillsPage {
+  skills: SkillSummary[];
+  /** Number of skills matching the filters, across all pages */
+  total: number;
+  nextCursor?: string;
+  facets: SkillFacets;
+}
+
+function equalsIgnoreCase(value: string | undefined, expected: string): boolean {
+  return value !== undefined && value.toLowerCase() === expected.toLowerCase();
+}
+
+/**
+ * Counts how many skills carry each tag, org, repo and author, most common
+ * first, keeping the MAX_FACET_VALUES most common values of each.
+ */
+function countFacets(skills: Skill[]): SkillFacets {
+  const count = (values: Array<string | undefined>): FacetCount[] => {
+    const counts = new Map<string, number>();
+    for (const value of values) {
+      if (value) {
+        counts.set(value, (counts.get(value) ?? 0) + 1);
+      }
+    }
+    return Array.from(counts, ([value, total]) => ({ value, count: total }))
+      .sort((a, b) => b.count - a.count || a.value.localeCompare(b.value))
+      .slice(0, MAX_FACET_VALUES);
+  };
+
+  return {
+    tags: count(skills.flatMap((skill) => Array.from(new Set(skill.metadata.tags ?? [])))),
+    orgs: count(skills.map((skill) => skill.metadata.sourceOrg)),
+    repos: count(skills.map((skill) => skill.metadata.sourceRepo)),
+    authors: count(skills.map((skill) => skill.metadata.author)),
+  };
+}
+
+function compareSkills(a: Skill, b: Skill, sort: SkillSortKey): number {
+  switch (sort) {
+    case 'source':
+      return a.source.localeCompare(b.source);
+    case 'lastUpdated':
+      return new Date(a.lastUpdated).getTime() - new Date(b.lastUpdated).getTime();
+    case 'org':
+      return (a.metadata.sourceOrg ?? '').localeCompare(b.metadata.sourceOrg ?? '');
+    case 'name':
+    default:
+      return a.name.localeCompare(b.name);
+  }
+}
+
 export class SkillExecutor {
   private registry: SkillRegistry;
+  private suggester: SkillSuggester;
+  private options: SkillExecutorOptions;
 
-  constructor(registry: SkillRegistry) {
+  constructor(registry: SkillRegistry, options: SkillExecutorOptions = {}) {
     this.registry = registry;
+    this.suggester = new SkillSuggester(registry);
+    this.options = options;
   }
 
-  async invokeSkill(skillId: string, parameters: Record<string, unknown> = {}): Promise<InvocationResult> {
+  async invokeSkill(
+    skillId: string,
+    parameters: Record<string, unknown> = {},
+    options: SkillContentOptions = {}
+  ): Promise<InvocationResult> {
     const startTime = Date.now();
 
     try {
       // Check if skill exists
-      const skill = this.registry.getSkill(skillId);
+      const skill = this.findSkill(skillId);
       if (!skill) {
-        const executionTime = Date.now() - startTime;
         logger.warn(`Skill not found: ${skillId}`);
-        return createErrorResult('SkillNotFound', `Skill not found: ${skillId}`, executionTime);
+        return this.createNotFoundResult(skillId, Date.now() - startTime);
       }
 
       // Validate parameters
-      const validation = this.registry.validateParameters(skillId, parameters);
+      const validation = this.registry.validateParameters(skill.id, parameters);
       if (!validation.valid) {
         const executionTime = Date.now() - startTime;
         const errorMessage = validation.errors?.join(', ') || 'Parameter validation failed';
-        logger.warn(`Parameter validation failed for skill ${skillId}: ${errorMessage}`);
+        logger.warn(`Parameter validation failed for skill ${skill.id}: ${errorMessage}`);
         return createErrorResult('InvalidParams', errorMessage, executionTime, { errors: validation.errors });
       }
 
-      // Substitute parameters into skill content
-      const formattedContent = this.substituteParameters(skill.content, parameters);
+      // Substitute parameters into skill content, filling in declared defaults
+      const defaults = Object.fromEntries(
+        (skill.parameters ?? [])
+          .filter((param) => param.default !== undefined)
+          .map((param) => [param.name, param.default])
+      );
+      const formattedContent = this.substituteParameters(this.selectContent(skill, options), {
+        ...defaults,
+        ...parameters,
+      });
 
       const executionTime = Date.now() - startTime;
-      logger.debug(`Skill ${skillId} invoked successfully in ${executionTime}ms`);
+      logger.debug(`Skill ${skill.id} invoked successfully in ${executionTime}ms`);
 
-      return createSuccessResult(formattedContent, executionTime);
+      return this.withResolvedId(
+        this.createContentResult(skill, formattedContent, options, executionTime),
+        skillId,
+        skill
+      );
     } catch (error) {
       const executionTime = Date.now() - startTime;
+      if (error instanceof SectionNotFoundError) {
+        return createErrorResult('InvalidParams', error.message, executionTime);
+      }
       const errorMessage = error instanceof Error ? error.message : String(error);
       logger.error(`Error invoking skill ${skillId}:`, error);
       return createErrorResult('ExecutionError', errorMessage, executionTime);
     }
   }
 
-  async getSkillDocumentation(skillId: string): Promise<InvocationResult> {
+  async getSkillDocumentation(
+    skillId: string,
+    options: SkillContentOptions = {}
+  ): Promise<InvocationResult> {
     const startTime = Date.now();
 
     try {
-      const skill = this.registry.getSkill(skillId);
+      const skill = this.findSkill(skillId);
       if (!skill) {
-        const executionTime = Date.now() - startTime;
-        return createErrorResult('SkillNotFound', `Skill not found: ${skillId}`, executionTime);
+        return this.createNotFoundResult(skillId, Date.now() - startTime);
       }
 
+      const content = this.selectContent(skill, options);
       const executionTime = Date.now() - startTime;
-      return createSuccessResult(skill.content, executionTime);
+      return this.withResolvedId(
+        this.createContentResult(skill, content, options, executionTime),
+        skillId,
+        skill
+      );
     } catch (error) {
       const executionTime = Date.now() - startTime;
+      if (error instanceof SectionNotFoundError) {
+        return createErrorResult('InvalidParams', error.message, executionTime);
+      }
       const errorMessage = error instanceof Error ? error.message : String(error);
       return createErrorResult('ExecutionError', errorMessage, executionTime);
     }
   }
 
+  /**
+   * Looks a skill up by id or short alias, falling back to its single close
+   * match when auto-resolution is enabled. Ambiguous aliases are not resolved.
+   */
+  private findSkill(skillId: string): Skill | undefined {
+    const matches = this.registry.findSkills(skillId);
+    if (matches.length > 0 || !this.options.autoResolve) {
+      return matches.length === 1 ? matches[0] : undefined;
+    }
+
+    const resolved = this.suggester.resolve(skillId);
+    if (resolved) {
+      logger.info(`Resolved unknown skill id '${skillId}' to '${resolved.id}'`);
+    }
+    return resolved;
+  }
+
+  private selectContent(skill: Skill, options: SkillContentOptions): string {
+    return options.sections && options.sections.length > 0
+      ? selectSections(skill.content, options.sections)
+      : skill.content;
+  }
+
+  /** Applies the requested detail level and token budget to the content */
+  private createContentResult(
+    skill: Skill,
+    content: string,
+    options: SkillContentOptions,
+    executionTime: number
+  ): InvocationResult {
+    if (!options.detail && options.maxTokens === undefined) {
+      return createSuccessResult(content, executionTime);
+    }
+
+    const disclosed = discloseContent(skill.description, content, options);
+    return {
+      ...createSuccessResult(disclosed.content, executionTime),
+      tokens: disclosed.tokens,
+      truncated: disclosed.truncated,
+      omittedSections: disclosed.omittedSections,
+    };
+  }
+
+  private withResolvedId(
+    result: InvocationResult,
+    skillId: string,
+    skill: Skill
+  ): InvocationResult {
+    return skill.id === skillId ? result : { ...result, resolvedSkillId: skill.id };
+  }
+
+  private createNotFoundResult(skillId: string, executionTime: number): InvocationResult {
+    // A short alias shared by several skills lists them instead of suggestions
+    const candidates = this.registry.findSkills(skillId);
+    if (candidates.length > 1) {
+      const ids = candidates.map((candidate) => candidate.id);
+      return createErrorResult(
+        'InvalidParams',
+        `Skill id '${skillId}' is ambiguous. Use one of: ${ids.join(', ')}`,
+        executionTime,
+        { candidates: candidates.map(({ id, name }) => ({ id, name })) }
+      );
+    }
+
+    const suggestions = this.suggester.suggest(skillId);
+    const hint =
+      suggestions.length > 0
+        ? `. Did you mean: ${suggestions.map((suggestion) => suggestion.id).join(', ')}?`
+        : '';
+
+    return createErrorResult('SkillNotFound', `Skill not found: ${skillId}${hint}`, executionTime, {
+      suggestions,
+    });
+  }
+
   private substituteParameters(content: string, parameters: Record<string, unknown>): string {
     let result = content;
 
@@ -82,13 +283,14 @@ export class SkillExecutor {
     return result;
   }
 
-  listSkills(filter?: string, source?: 'all' | 'repository' | 'local'): Array<{
-    id: string;
-    name: string;
-    description: string;
-    source: string;
-    parameters?: Array<{ name: string; type: string; description: string; required: boolean }>;
-  }> {
+  listSkills(options: ListSkillsOptions = {}): ListSkillsPage {
+    const { filter, source, sort = 'name', cursor } = options;
+    const order = options.order ?? (sort === 'lastUpdated' ? 'desc' : 'asc');
+    const limit = Math.min(
+      Math.max(Math.floor(options.limit ?? DEFAULT_LIST_LIMIT), 1),
+      MAX_LIST_LIMIT
+    );
+
     let skills = this.registry.listSkills();
 
     // Apply source filter
@@ -107,18 +309,63 @@ export class SkillExecutor {
       );
     }
 
-    return skills.map((skill) => ({
-      id: skill.id,
-      name: skill.name,
-      description: skill.description,
-      source: skill.source,
-      parameters: skill.parameters?.map((p) => ({
-        name: p.name,
-        type: p.type,
-        description: p.description,
-        required: p.required,
+    // Apply facet filters
+    if (options.tags?.length) {
+      const wanted = options.tags.map((tag) => tag.toLowerCase());
+      const matchAll = options.tagMatch === 'all';
+      skills = skills.filter((skill) => {
+        const tags = new Set((skill.metadata.tags ?? []).map((tag) => tag.toLowerCase()));
+        return matchAll
+          ? wanted.every((tag) => tags.has(tag))
+          : wanted.some((tag) => tags.has(tag));
+      });
+    }
+    if (options.org) {
+      const org = options.org;
+      skills = skills.filter((skill) => equalsIgnoreCase(skill.metadata.sourceOrg, org));
+    }
+    if (options.repo) {
+      const repo = options.repo;
+      skills = skills.filter((skill) => equalsIgnoreCase(skill.metadata.sourceRepo, repo));
+    }
+    if (options.author) {
+      const author = options.author;
+      skills = skills.filter((skill) => equalsIgnoreCase(skill.metadata.author, author));
+    }
+    if (options.hasParameters !== undefined) {
+      skills = skills.filter(
+        (skill) => (skill.parameters?.length ?? 0) > 0 === options.hasParameters
+      );
+    }
+
+    // By org, skills without one come last in either order. Ties are broken by
+    // id so that pages stay stable between requests
+    const direction = order === 'desc' ? -1 : 1;
+    const orgLast = (skill: Skill) => (sort === 'org' ? Number(!skill.metadata.sourceOrg) : 0);
+    skills.sort(
+      (a, b) =>
+        orgLast(a) - orgLast(b) || direction * compareSkills(a, b, sort) || a.id.localeCompare(b.id)
+    );
+
+    const page = paginate(skills, cursor, limit);
+
+    return {
+      skills: page.items.map((skill) => ({
+        id: skill.id,
+        name: skill.name,
+        description: skill.description,
+        source: skill.source,
+        parameters: skill.parameters?.map((p) => ({
+          name: p.name,
+          type: p.type,
+          description: p.description,
+          required: p.required,
+        })),
       })),
-    }));
+      total: skills.length,
+      nextCursor: page.nextCursor,
+      facets: countFacets(skills),
+    };
   }
 
   getSkill(skillId: string): Skill | undefined {
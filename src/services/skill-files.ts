@@ -0,0 +1,201 @@
+import { createHash } from 'crypto';
+import { readdir, readFile, realpath, stat } from 'fs/promises';
+import { extname, isAbsolute, join, posix, relative } from 'path';
+import { Skill, SkillFile } from '../models/skill.js';
+
+/** Indexing stops after this many files so a stray vendored directory stays cheap */
+export const MAX_SKILL_FILES = 500;
+
+/** Larger files are indexed but cannot be read through the server */
+export const MAX_SKILL_FILE_BYTES = 1024 * 1024;
+
+/** Files read at once while indexing, so memory stays bounded */
+const INDEX_BATCH_SIZE = 16;
+
+const MIME_TYPES: Record<string, string> = {
+  '.md': 'text/markdown',
+  '.txt': 'text/plain',
+  '.html': 'text/html',
+  '.css': 'text/css',
+  '.csv': 'text/csv',
+  '.json': 'application/json',
+  '.yaml': 'application/yaml',
+  '.yml': 'application/yaml',
+  '.xml': 'application/xml',
+  '.xsd': 'application/xml',
+  '.js': 'text/javascript',
+  '.mjs': 'text/javascript',
+  '.ts': 'text/x-typescript',
+  '.py': 'text/x-python',
+  '.sh': 'application/x-sh',
+  '.rb': 'text/x-ruby',
+  '.go': 'text/x-go',
+  '.rs': 'text/x-rust',
+  '.java': 'text/x-java',
+  '.sql': 'application/sql',
+  '.svg': 'image/svg+xml',
+  '.png': 'image/png',
+  '.jpg': 'image/jpeg',
+  '.jpeg': 'image/jpeg',
+  '.gif': 'image/gif',
+  '.webp': 'image/webp',
+  '.pdf': 'application/pdf',
+  '.zip': 'application/zip',
+  '.ttf': 'font/ttf',
+  '.woff': 'font/woff',
+  '.woff2': 'font/woff2',
+  '.docx': 'application/vnd.openxmlformats-officedocument.wordprocessingml.document',
+  '.xlsx': 'application/vnd.openxmlformats-officedocument.spreadsheetml.sheet',
+  '.pptx': 'application/vnd.openxmlformats-officedocument.presentationml.presentation',
+};
+
+const TEXT_MIME_TYPES = new Set([
+  'application/json',
+  'application/yaml',
+  'application/xml',
+  'application/x-sh',
+  'application/sql',
+  'image/svg+xml',
+]);
+
+/** Thrown when a bundled skill file cannot be served */
+export class SkillFileError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'SkillFileError';
+  }
+}
+
+export interface SkillFileContent {
+  file: SkillFile;
+  /** Set for text files */
+  text?: string;
+  /** Base64-encoded content, set for binary files */
+  blob?: string;
+}
+
+export function getMimeType(path: string): string {
+  return MIME_TYPES[extname(path).toLowerCase()] ?? 'application/octet-stream';
+}
+
+export function isTextMimeType(mimeType: string): boolean {
+  return mimeType.startsWith('text/') || TEXT_MIME_TYPES.has(mimeType);
+}
+
+/**
+ * Normalizes a requested file path to the forward-slash form used in the
+ * index. Returns undefined for absolute paths and paths that leave the skill
+ * directory, such as "../other-skill/SKILL.md".
+ */
+export function normalizeSkillFilePath(path: string): string | undefined {
+  const normalized = posix.normalize(path.replace(/\\/g, '/'));
+  if (
+    !normalized ||
+    normalized === '.' ||
+    posix.isAbsolute(normalized) ||
+    /^[a-zA-Z]:/.test(normalized) ||
+    normalized === '..' ||
+    normalized.startsWith('../')
+  ) {
+    return undefined;
+  }
+  return normalized;
+}
+
+/**
+ * Describes one bundled file. Files over MAX_SKILL_FILE_BYTES are not read:
+ * their hash covers size and modification time, which still changes with them.
+ */
+async function indexSkillFile(skillDir: string, path: string): Promise<SkillFile> {
+  const location = join(skillDir, ...path.split('/'));
+  const stats = await stat(location);
+  const hash = createHash('sha256');
+  if (stats.size > MAX_SKILL_FILE_BYTES) {
+    hash.update(`${stats.size}:${stats.mtimeMs}`);
+  } else {
+    hash.update(await readFile(location));
+  }
+  return { path, size: stats.size, mimeType: getMimeType(path), hash: hash.digest('hex') };
+}
+
+/**
+ * Lists the files bundled with a skill (scripts, references, assets), sorted
+ * by path. Hidden files and symbolic links are skipped, and so are the
+ * `excluded` paths, such as the skill's own markdown file.
+ */
+export async function indexSkillFiles(
+  skillDir: string,
+  excluded: string[] = []
+): Promise<SkillFile[]> {
+  const paths: string[] = [];
+
+  const walk = async (dir: string, prefix: string): Promise<void> => {
+    const entries = await readdir(dir, { withFileTypes: true });
+    entries.sort((a, b) => a.name.localeCompare(b.name));
+
+    for (const entry of entries) {
+      if (paths.length >= MAX_SKILL_FILES) {
+        return;
+      }
+      if (entry.name.startsWith('.')) {
+        continue;
+      }
+      const path = prefix ? `${prefix}/${entry.name}` : entry.name;
+      if (entry.isDirectory()) {
+        await walk(join(dir, entry.name), path);
+      } else if (entry.isFile() && !excluded.includes(path)) {
+        paths.push(path);
+      }
+    }
+  };
+  await walk(skillDir, '');
+
+  const files: SkillFile[] = [];
+  for (let start = 0; start < paths.length; start += INDEX_BATCH_SIZE) {
+    const batch = paths.slice(start, start + INDEX_BATCH_SIZE);
+    files.push(...(await Promise.all(batch.map((path) => indexSkillFile(skillDir, path)))));
+  }
+  return files;
+}
+
+/**
+ * Reads a bundled file of a skill. Only indexed files can be read, and the
+ * resolved location must stay inside the skill directory.
+ */
+export async function readSkillFile(skill: Skill, path: string): Promise<SkillFileContent> {
+  const normalized = normalizeSkillFilePath(path);
+  if (!normalized) {
+    throw new SkillFileError(`Invalid file path: ${path}`);
+  }
+
+  const file = skill.files?.find((candidate) => candidate.path === normalized);
+  if (!file) {
+    throw new SkillFileError(`File not found in skill ${skill.id}: ${normalized}`);
+  }
+  if (file.size > MAX_SKILL_FILE_BYTES) {
+    throw new SkillFileError(
+      `File is too large to read (${file.size} bytes, limit ${MAX_SKILL_FILE_BYTES}): ${file.path}`
+    );
+  }
+
+  // The index may be stale, so check where the path resolves to now
+  let content: Buffer;
+  try {
+    const root = await realpath(skill.sourcePath);
+    const target = await realpath(join(root, ...normalized.split('/')));
+    const fromRoot = relative(root, target);
+    if (fromRoot.startsWith('..') || isAbsolute(fromRoot)) {
+      throw new SkillFileError(`Invalid file path: ${path}`);
+    }
+    content = await readFile(target);
+  } catch (error) {
+    if (error instanceof SkillFileError) {
+      throw error;
+    }
+    throw new SkillFileError(`File not found in skill ${skill.id}: ${normalized}`);
+  }
+
+  return isTextMimeType(file.mimeType)
+    ? { file, text: content.toString('utf-8') }
+    : { file, blob: content.toString('base64') };
+}
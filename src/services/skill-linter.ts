@@ -0,0 +1,136 @@
+import { readFile, stat } from 'fs/promises';
+import { relative } from 'path';
+import { Skill, skillSchema } from '../models/skill.js';
+import { LintDiagnostic, LintReport } from '../models/tool-output.js';
+import { DiscoveryOptions } from './skill-discovery.js';
+import { SkillParser, findSkillFile } from './skill-parser.js';
+
+/** Thrown when the directory to lint does not exist or is not a directory */
+export class LintTargetError extends Error {
+  /** Why the directory cannot be linted, e.g. "not a directory" */
+  readonly reason: string;
+
+  constructor(directory: string, reason: string) {
+    super(`Cannot lint ${directory}: ${reason}`);
+    this.name = 'LintTargetError';
+    this.reason = reason;
+  }
+}
+
+/** Line of a top-level frontmatter key, so schema problems point at the field */
+function findFrontmatterLine(text: string, key: string): number | undefined {
+  const lines = text.split(/\r?\n/);
+  if (lines[0]?.trim() !== '---') {
+    return undefined;
+  }
+  for (let index = 1; index < lines.length && lines[index].trim() !== '---'; index++) {
+    if (lines[index].startsWith(`${key}:`)) {
+      return index + 1;
+    }
+  }
+  return undefined;
+}
+
+function lintSkill(skill: Skill, file: string, text: string): LintDiagnostic[] {
+  const diagnostics: LintDiagnostic[] = (skill.diagnostics ?? []).map((diagnostic) => ({
+    ...diagnostic,
+    file,
+    skillId: skill.id,
+  }));
+
+  // The registry holds skills to skillSchema, e.g. descriptions of at most 500 characters
+  const result = skillSchema.safeParse(skill);
+  if (!result.success) {
+    for (const issue of result.error.errors) {
+      const field = issue.path.join('.');
+      diagnostics.push({
+        severity: 'error',
+        rule: 'skill-schema',
+        message: `Skill ${field} is invalid: ${issue.message}`,
+        line: findFrontmatterLine(text, String(issue.path[0])),
+        file,
+        skillId: skill.id,
+      });
+    }
+  }
+
+  return diagnostics;
+}
+
+/**
+ * Runs the skill parser over a directory, the way the server loads local
+ * skills, and collects the problems found: parse diagnostics, skills that do
+ * not satisfy the skill schema, and skills that share an id. A README alone is
+ * not read as an awesome list, so linting never fetches linked skills.
+ */
+export async function lintSkills(
+  directory: string,
+  options: DiscoveryOptions = {}
+): Promise<LintReport> {
+  const stats = await stat(directory).catch(() => undefined);
+  if (!stats) {
+    throw new LintTargetError(directory, 'no such directory');
+  }
+  if (!stats.isDirectory()) {
+    throw new LintTargetError(directory, 'not a directory');
+  }
+
+  // The ids the server gives local skills, so id collisions match what it would shadow
+  const skills = await new SkillParser(options).parseSkillsFromRepo(directory, 'local', {
+    namespace: 'local',
+    readme: false,
+  });
+  const diagnostics: LintDiagnostic[] = [];
+  const filesById = new Map<string, string[]>();
+
+  for (const skill of skills) {
+    const path = await findSkillFile(skill.sourcePath);
+    const file = relative(directory, path ?? skill.sourcePath);
+    const text = path ? await readFile(path, 'utf-8') : '';
+    diagnostics.push(...lintSkill(skill, file, text));
+    filesById.set(skill.id, [...(filesById.get(skill.id) ?? []), file]);
+  }
+
+  // Only one skill per id can be registered; the others are silently shadowed
+  for (const [skillId, files] of filesById) {
+    if (files.length < 2) {
+      continue;
+    }
+    for (const file of files) {
+      const others = files.filter((other) => other !== file);
+      diagnostics.push({
+        severity: 'error',
+        rule: 'id-collision',
+        message: `Skill id '${skillId}' is also used by ${others.join(', ')}`,
+        file,
+        skillId,
+      });
+    }
+  }
+
+  diagnostics.sort((a, b) => a.file.localeCompare(b.file) || (a.line ?? 0) - (b.line ?? 0));
+
+  const errorCount = diagnostics.filter((diagnostic) => diagnostic.severity === 'error').length;
+  return {
+    directory,
+    skillCount: skills.length,
+    errorCount,
+    warningCount: diagnostics.length - errorCount,
+    diagnostics,
+  };
+}
+
+/** Formats a report for terminals, one `file:line: severity message (rule)` line per problem */
+export function formatLintReport(report: LintReport): string {
+  const lines = report.diagnostics.map(
+    (diagnostic) =>
+      `${diagnostic.file}:${diagnostic.line ?? 1}: ${diagnostic.severity} ` +
+      `${diagnostic.message} (${diagnostic.rule})`
+  );
+  const plural = (count: number, noun: string) => `${count} ${noun}${count === 1 ? '' : 's'}`;
+  lines.push(
+    `${plural(report.errorCount, 'error')} and ${plural(report.warningCount, 'warning')} ` +
+      `in ${plural(report.skillCount, 'skill')}`
+  );
+  return lines.join('\n');
+}
@@ -1,19 +1,65 @@
-import { readFile } from 'fs/promises';
-import { join } from 'path';
+import { readFile, readdir } from 'fs/promises';
+import { basename, extname, join } from 'path';
 import { existsSync } from 'fs';
-import { Skill, SkillMetadata } from '../models/skill.js';
-import { ParameterSchema } from '../models/parameter.js';
+import { LineCounter, isMap, isScalar, parseDocument } from 'yaml';
+import { Skill, SkillDiagnostic, SkillMetadata, qualifySkillId } from '../models/skill.js';
+import {
+  ParameterSchema,
+  parameterSchemaSchema,
+  parameterTypeSchema,
+} from '../models/parameter.js';
 import { getLogger } from '../utils/logger.js';
+import { indexSkillFiles } from './skill-files.js';
+import { SkillLink, parseSkillLinks } from './awesome-list.js';
+import {
+  DiscoveredSkill,
+  DiscoveryOptions,
+  discoverManifestSkills,
+  discoverSkillDirectories,
+} from './skill-discovery.js';
 
 const logger = getLogger();
 
-interface SkillLink {
-  name: string;
-  org: string;
-  repo: string;
-  path: string;
-  description: string;
-  url: string;
+// The closing delimiter may directly follow the opening one (empty frontmatter)
+const FRONTMATTER_REGEX = /^---[ \t]*\r?\n(?:([\s\S]*?)\r?\n)?---[ \t]*(?:\r?\n|$)([\s\S]*)$/;
+
+/** Frontmatter keys mapped onto dedicated SkillMetadata fields; the rest go to `extra` */
+const KNOWN_FRONTMATTER_KEYS = new Set([
+  'name',
+  'description',
+  'author',
+  'version',
+  'tags',
+  'requirements',
+  'license',
+  'allowed-tools',
+  'compatibility',
+  'metadata',
+  'parameters',
+]);
+
+// Limits from the Agent Skills SKILL.md specification
+const SPEC_NAME_PATTERN = /^[a-z0-9]+(-[a-z0-9]+)*$/;
+const SPEC_NAME_MAX_LENGTH = 64;
+const SPEC_DESCRIPTION_MAX_LENGTH = 1024;
+const SPEC_COMPATIBILITY_MAX_LENGTH = 500;
+
+export interface ParseOptions {
+  /** Aborts parsing; the returned promise rejects with the signal's reason */
+  signal?: AbortSignal;
+  /** Called after each skill is parsed or fetched */
+  onProgress?: (completed: number, total: number) => void;
+  /**
+   * Prefix of the ids of skills found in the directory, usually "org/repo",
+   * followed by the skill's category directories. Skills linked from an awesome-list README are namespaced by the repository
+   * they link to instead.
+   */
+  namespace?: string;
+  /**
+   * Whether a directory without skill directories is read as an awesome list,
+   * fetching the skills its README links to. Defaults to true.
+   */
+  readme?: boolean;
 }
 
 interface ParsedSkill {
@@ -22,10 +68,157 @@ interface ParsedSkill {
   content: string;
   metadata: SkillMetadata;
   parameters: ParameterSchema[];
+  diagnostics: SkillDiagnostic[];
+}
+
+interface Frontmatter {
+  data: Record<string, unknown>;
+  /** File line of each top-level key, for diagnostics */
+  lines: Map<string, number>;
+  diagnostics: SkillDiagnostic[];
+}
+
+function toText(value: unknown): string | undefined {
+  if (typeof value === 'string') {
+    return value.trim();
+  }
+  if (typeof value === 'number' || typeof value === 'boolean') {
+    return String(value);
+  }
+  return undefined;
+}
+
+/** Accepts YAML lists as well as comma-separated strings ("pdf, forms") */
+function toTextList(value: unknown): string[] | undefined {
+  if (typeof value === 'string') {
+    return value
+      .split(',')
+      .map((item) => item.trim())
+      .filter(Boolean);
+  }
+  if (Array.isArray(value) && value.every((item) => toText(item) !== undefined)) {
+    return value.map((item) => toText(item) as string);
+  }
+  return undefined;
+}
+
+/**
+ * `allowed-tools` is space-delimited in the spec, but comma-separated lists and
+ * YAML lists are common too. Commas win so "Bash(git add:*), Read" stays intact.
+ */
+function toToolList(value: unknown): string[] | undefined {
+  if (typeof value === 'string') {
+    return value
+      .split(value.includes(',') ? ',' : /\s+/)
+      .map((tool) => tool.trim())
+      .filter(Boolean);
+  }
+  return toTextList(value);
+}
+
+/** The spec's `metadata` map only holds string values; scalars are stringified */
+function toStringMap(value: unknown): Record<string, string> | undefined {
+  if (typeof value !== 'object' || value === null || Array.isArray(value)) {
+    return undefined;
+  }
+  const entries = Object.entries(value).map(([key, item]) => [key, toText(item)]);
+  return entries.every(([, item]) => item !== undefined) ? Object.fromEntries(entries) : undefined;
+}
+
+function isRecord(value: unknown): value is Record<string, unknown> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+/**
+ * Reads the `parameters` frontmatter field, which may be a map of parameter
+ * names to schemas, a list of schemas with a `name`, or a JSON Schema object
+ * (`type: object` with `properties` and `required`). A parameter's `required`
+ * is a boolean; given a list, it names the required properties of an object
+ * parameter instead. Declarations that fail validation are returned as errors.
+ */
+function toParameterDeclarations(value: unknown): {
+  parameters: ParameterSchema[];
+  errors: string[];
+} {
+  let entries: Array<[string | undefined, unknown]>;
+  let requiredNames = new Set<string>();
+
+  if (Array.isArray(value)) {
+    entries = value.map((entry) => [undefined, entry]);
+  } else if (isRecord(value) && value.type === 'object' && isRecord(value.properties)) {
+    entries = Object.entries(value.properties);
+    if (Array.isArray(value.required)) {
+      requiredNames = new Set(value.required.filter((name) => typeof name === 'string'));
+    }
+  } else if (isRecord(value)) {
+    entries = Object.entries(value);
+  } else {
+    return { parameters: [], errors: ["Frontmatter field 'parameters' should be a map or a list"] };
+  }
+
+  const parameters: ParameterSchema[] = [];
+  const errors: string[] = [];
+
+  entries.forEach(([key, entry], index) => {
+    if (!isRecord(entry)) {
+      errors.push(`Parameter ${key ?? index + 1} should be a map of schema fields`);
+      return;
+    }
+    const { required, ...fields } = entry;
+    const name = key ?? toText(entry.name);
+    const result = parameterSchemaSchema.safeParse({
+      ...fields,
+      name,
+      description: toText(entry.description) || name,
+      required: typeof required === 'boolean' ? required : requiredNames.has(name ?? ''),
+      requiredProperties: Array.isArray(required) ? required : undefined,
+    });
+
+    if (result.success) {
+      parameters.push(result.data);
+    } else {
+      const issue = result.error.errors[0];
+      const field = issue?.path.join('.');
+      errors.push(
+        `Parameter ${name ?? index + 1} is invalid` +
+          (issue ? `: ${field ? `${field}: ` : ''}${issue.message}` : '')
+      );
+    }
+  });
+
+  return { parameters, errors };
+}
+
+function reportDiagnostics(file: string, diagnostics: SkillDiagnostic[]): void {
+  for (const diagnostic of diagnostics) {
+    logger.warn(`${file}:${diagnostic.line ?? 1}: ${diagnostic.message} (${diagnostic.rule})`);
+  }
+}
+
+/**
+ * Finds the main file of a skill directory: SKILL.md, then README.md, then any
+ * other markdown file. Returns null when the directory holds no markdown.
+ */
+export async function findSkillFile(skillDir: string): Promise<string | null> {
+  const files = await readdir(skillDir);
+
+  if (files.includes('SKILL.md')) {
+    return join(skillDir, 'SKILL.md');
+  }
+  if (files.includes('README.md')) {
+    return join(skillDir, 'README.md');
+  }
+  const mdFile = files.find((file) => extname(file) === '.md');
+  return mdFile ? join(skillDir, mdFile) : null;
 }
 
 export class SkillParser {
   private overrides: Map<string, Partial<ParsedSkill>> = new Map();
+  private discoveryOptions: DiscoveryOptions;
+
+  constructor(discoveryOptions: DiscoveryOptions = {}) {
+    this.discoveryOptions = discoveryOptions;
+  }
 
   async loadOverrides(overridesPath: string): Promise<void> {
     try {
@@ -47,104 +240,126 @@ export class SkillParser {
     }
   }
 
-  async parseSkillsFromRepo(repoDir: string, source: 'repository' | 'local'): Promise<Skill[]> {
+  async parseSkillsFromRepo(
+    repoDir: string,
+    source: 'repository' | 'local',
+    options: ParseOptions = {}
+  ): Promise<Skill[]> {
     const skills: Skill[] = [];
 
     try {
-      // Check if this is a VoltAgent-style "awesome list" repo (just README with links)
       const readmePath = join(repoDir, 'README.md');
       const skillsDir = join(repoDir, 'skills');
 
-      if (existsSync(readmePath) && !existsSync(skillsDir)) {
-        // This is an awesome-list style repo - parse README for skill links
+      // Plugin manifests list skills explicitly; otherwise search for SKILL.md files,
+      // preferring a top-level skills/ directory
+      let discovered = await discoverManifestSkills(repoDir, this.discoveryOptions);
+      if (!discovered) {
+        const hasSkillsDir = existsSync(skillsDir);
+        discovered = await discoverSkillDirectories(hasSkillsDir ? skillsDir : repoDir, {
+          ...this.discoveryOptions,
+          legacyLayout: hasSkillsDir,
+        });
+      }
+
+      if (discovered.length > 0) {
+        const dirSkills = await this.parseDiscoveredSkills(discovered, source, options);
+        skills.push(...dirSkills);
+      } else if (options.readme !== false && existsSync(readmePath)) {
+        // Check if this is a VoltAgent-style "awesome list" repo (just README with links)
         logger.info('Detected awesome-list style repository, parsing README for skills...');
-        const readmeSkills = await this.parseSkillsFromReadme(readmePath, source);
+        const readmeSkills = await this.parseSkillsFromReadme(readmePath, source, options);
         skills.push(...readmeSkills);
-      } else if (existsSync(skillsDir)) {
-        // Traditional skills directory structure
-        const dirSkills = await this.parseSkillsFromDirectory(skillsDir, source);
-        skills.push(...dirSkills);
       } else {
         logger.warn(`No skills found in ${repoDir}`);
       }
 
       return skills;
     } catch (error) {
+      if (options.signal?.aborted) {
+        throw error;
+      }
       logger.error('Failed to parse skills from repository:', error);
       return skills;
     }
   }
 
-  private async parseSkillsFromReadme(readmePath: string, source: 'repository' | 'local'): Promise<Skill[]> {
+  private async parseSkillsFromReadme(
+    readmePath: string,
+    source: 'repository' | 'local',
+    options: ParseOptions
+  ): Promise<Skill[]> {
     const skills: Skill[] = [];
 
     try {
       const content = await readFile(readmePath, 'utf-8');
-      
-      // Extract skill links from markdown
-      // Format: - **[org/skill-name](https://github.com/org/repo/tree/main/skills/skill-name)** - Description
-      const skillLinkRegex = /\*\*\[([^\]]+)\]\((https:\/\/github\.com\/([^/]+)\/([^/]+)\/tree\/[^/]+\/(.+?))\)\*\*\s*-\s*(.+)/g;
-      
-      let match;
-      const skillLinks: SkillLink[] = [];
-      
-      while ((match = skillLinkRegex.exec(content)) !== null) {
-        const [, name, url, org, repo, path, description] = match;
-        skillLinks.push({
-          name: name.trim(),
-          org,
-          repo,
-          path: path.trim(),
-          description: description.trim(),
-          url,
-        });
-      }
+      const skillLinks = parseSkillLinks(content);
 
       logger.info(`Found ${skillLinks.length} skill links in README`);
 
       // Fetch actual skill content from GitHub
-      for (const link of skillLinks) {
+      for (const [index, link] of skillLinks.entries()) {
+        options.signal?.throwIfAborted();
         try {
-          const skill = await this.fetchSkillFromGitHub(link, source);
+          const skill = await this.fetchSkillFromGitHub(link, source, options.signal);
           if (skill) {
             skills.push(skill);
           }
         } catch (error) {
+          options.signal?.throwIfAborted();
           logger.warn(`Failed to fetch skill ${link.name}: ${error}`);
           // Create a stub skill with the metadata from README
           const stubSkill = this.createSkillStub(link, source);
           skills.push(stubSkill);
         }
+        options.onProgress?.(index + 1, skillLinks.length);
       }
 
       return skills;
     } catch (error) {
+      if (options.signal?.aborted) {
+        throw error;
+      }
       logger.error('Failed to parse skills from README:', error);
       return skills;
     }
   }
 
-  private async fetchSkillFromGitHub(link: SkillLink, source: 'repository' | 'local'): Promise<Skill | null> {
-    // Try to fetch the SKILL.md or README.md from the GitHub raw URL
-    const possibleFiles = ['SKILL.md', 'README.md', 'skill.md'];
+  private async fetchSkillFromGitHub(
+    link: SkillLink,
+    source: 'repository' | 'local',
+    signal?: AbortSignal
+  ): Promise<Skill | null> {
+    // Try to fetch the SKILL.md or README.md from the GitHub raw URL, starting
+    // with the file a blob link points to
+    const possibleFiles = ['SKILL.md', 'README.md', 'skill.md'].filter(
+      (file) => file !== link.file
+    );
+    if (link.file) {
+      possibleFiles.unshift(link.file);
+    }
     
     for (const file of possibleFiles) {
       try {
         // Convert tree URL to raw URL
         // https://github.com/org/repo/tree/main/path -> https://raw.githubusercontent.com/org/repo/main/path/file
-        const rawUrl = `https://raw.githubusercontent.com/${link.org}/${link.repo}/main/${link.path}/${file}`;
+        const filePath = link.path ? `${link.path}/${file}` : file;
+        const rawUrl = `https://raw.githubusercontent.com/${link.org}/${link.repo}/${link.ref}/${filePath}`;
         
         const response = await fetch(rawUrl, {
           headers: {
             'User-Agent': 'awesome-agent-skills-mcp/1.0.0',
           },
+          signal,
         });
 
         if (response.ok) {
           const content = await response.text();
-          const parsed = this.parseMarkdown(content);
+          const directoryName = link.path.split('/').pop() || link.name;
+          const parsed = this.parseMarkdown(content, directoryName);
+          reportDiagnostics(rawUrl, parsed.diagnostics);
           
-          const skillId = this.normalizeSkillId(link.path.split('/').pop() || link.name);
+          const skillId = this.normalizeSkillId(directoryName);
           
           // Apply overrides if any
           const override = this.overrides.get(skillId);
@@ -153,7 +368,7 @@ export class SkillParser {
           }
 
           const skill: Skill = {
-            id: skillId,
+            id: qualifySkillId(`${link.org}/${link.repo}`, skillId),
             name: parsed.name || link.name.split('/').pop() || skillId,
             description: parsed.description || link.description,
             source,
@@ -164,14 +379,17 @@ export class SkillParser {
               ...parsed.metadata,
               sourceOrg: link.org,
               sourceRepo: link.repo,
+              categoryPath: link.categoryPath.length > 0 ? link.categoryPath : undefined,
             },
             lastUpdated: new Date(),
+            diagnostics: parsed.diagnostics.length > 0 ? parsed.diagnostics : undefined,
           };
 
           logger.debug(`Fetched skill: ${skill.name} from ${rawUrl}`);
           return skill;
         }
       } catch (error) {
+        signal?.throwIfAborted();
         // Try next file
         continue;
       }
@@ -184,7 +402,7 @@ export class SkillParser {
     const skillId = this.normalizeSkillId(link.path.split('/').pop() || link.name);
     
     return {
-      id: skillId,
+      id: qualifySkillId(`${link.org}/${link.repo}`, skillId),
       name: link.name.split('/').pop() || skillId,
       description: link.description,
       source,
@@ -194,71 +412,78 @@ export class SkillParser {
       metadata: {
         sourceOrg: link.org,
         sourceRepo: link.repo,
+        categoryPath: link.categoryPath.length > 0 ? link.categoryPath : undefined,
       },
       lastUpdated: new Date(),
     };
   }
 
-  private async parseSkillsFromDirectory(skillsDir: string, source: 'repository' | 'local'): Promise<Skill[]> {
+  private async parseDiscoveredSkills(
+    discovered: DiscoveredSkill[],
+    source: 'repository' | 'local',
+    options: ParseOptions
+  ): Promise<Skill[]> {
     const skills: Skill[] = [];
-    const { readdir } = await import('fs/promises');
 
     try {
-      const entries = await readdir(skillsDir, { withFileTypes: true });
-      const skillDirs = entries.filter((entry) => entry.isDirectory()).map((entry) => entry.name);
-
-      logger.info(`Found ${skillDirs.length} potential skill directories`);
+      logger.info(`Found ${discovered.length} potential skill directories`);
 
-      for (const skillDirName of skillDirs) {
-        const skillDir = join(skillsDir, skillDirName);
-        const skill = await this.parseSkillDirectory(skillDir, source);
+      for (const [index, { dir, categoryPath, plugin }] of discovered.entries()) {
+        options.signal?.throwIfAborted();
+        const skill = await this.parseSkillDirectory(dir, source, {
+          categoryPath: categoryPath.length > 0 ? categoryPath : undefined,
+          plugin,
+        });
 
         if (skill) {
-          skills.push(skill);
+          // Category directories are part of the id, so "a/design" and "b/design" stay apart
+          skills.push(
+            options.namespace
+              ? {
+                  ...skill,
+                  id: qualifySkillId([options.namespace, ...categoryPath].join('/'), skill.id),
+                }
+              : skill
+          );
         }
+        options.onProgress?.(index + 1, discovered.length);
       }
 
       logger.info(`Successfully parsed ${skills.length} skills`);
       return skills;
     } catch (error) {
+      if (options.signal?.aborted) {
+        throw error;
+      }
       logger.error('Failed to parse skills from directory:', error);
       return skills;
     }
   }
 
-  async parseSkillDirectory(skillDir: string, source: 'repository' | 'local'): Promise<Skill | null> {
-    const { readdir } = await import('fs/promises');
-    
+  /**
+   * @param metadata Metadata known from discovery, such as the category path
+   */
+  async parseSkillDirectory(
+    skillDir: string,
+    source: 'repository' | 'local',
+    metadata: Partial<SkillMetadata> = {}
+  ): Promise<Skill | null> {
     try {
       const skillId = skillDir.split('/').pop() || '';
       if (!skillId) {
         return null;
       }
 
-      // Find the main skill file (SKILL.md preferred over README.md)
-      let skillFile: string | null = null;
-      const files = await readdir(skillDir);
-
-      if (files.includes('SKILL.md')) {
-        skillFile = join(skillDir, 'SKILL.md');
-      } else if (files.includes('README.md')) {
-        skillFile = join(skillDir, 'README.md');
-      } else {
-        // Try any .md file
-        const { extname } = await import('path');
-        const mdFile = files.find((f) => extname(f) === '.md');
-        if (mdFile) {
-          skillFile = join(skillDir, mdFile);
-        }
-      }
-
+      const skillFile = await findSkillFile(skillDir);
       if (!skillFile) {
         logger.warn(`No skill file found in ${skillDir}`);
         return null;
       }
 
       const content = await readFile(skillFile, 'utf-8');
-      const parsed = this.parseMarkdown(content);
+      const parsed = this.parseMarkdown(content, skillId);
+      reportDiagnostics(skillFile, parsed.diagnostics);
+      const bundledFiles = await indexSkillFiles(skillDir, [basename(skillFile)]);
 
       // Apply overrides if any
       const override = this.overrides.get(skillId);
@@ -274,8 +499,10 @@ export class SkillParser {
         sourcePath: skillDir,
         content: parsed.content,
         parameters: parsed.parameters,
-        metadata: parsed.metadata,
+        metadata: { ...parsed.metadata, ...metadata },
         lastUpdated: new Date(),
+        diagnostics: parsed.diagnostics.length > 0 ? parsed.diagnostics : undefined,
+        files: bundledFiles.length > 0 ? bundledFiles : undefined,
       };
 
       return skill;
@@ -285,56 +512,228 @@ export class SkillParser {
     }
   }
 
-  private parseMarkdown(content: string): ParsedSkill {
-    // Extract frontmatter
-    const frontmatterMatch = content.match(/^---\s*\n([\s\S]*?)\n---\s*\n([\s\S]*)$/);
+  /**
+   * @param directoryName Name of the directory holding the skill, which the
+   *   spec requires the frontmatter `name` to match
+   */
+  private parseMarkdown(content: string, directoryName?: string): ParsedSkill {
+    const frontmatterMatch = content.match(FRONTMATTER_REGEX);
 
-    let frontmatter: Record<string, unknown> = {};
+    let frontmatter: Frontmatter = { data: {}, lines: new Map(), diagnostics: [] };
     let body = content;
 
     if (frontmatterMatch) {
-      frontmatter = this.parseFrontmatter(frontmatterMatch[1]);
+      frontmatter = this.parseFrontmatter(frontmatterMatch[1] ?? '');
       body = frontmatterMatch[2];
     }
 
-    // Extract parameters from the content
-    const parameters = this.extractParameters(body);
+    const { data, lines } = frontmatter;
+    const diagnostics = [...frontmatter.diagnostics];
+
+    // Known keys with a value of the wrong shape are reported and then ignored
+    const read = <T>(key: string, convert: (value: unknown) => T | undefined, expected: string) => {
+      if (data[key] === undefined || data[key] === null) {
+        return undefined;
+      }
+      const value = convert(data[key]);
+      if (value === undefined) {
+        diagnostics.push({
+          severity: 'warning',
+          rule: 'frontmatter-type',
+          message: `Frontmatter field '${key}' should be ${expected}`,
+          line: lines.get(key),
+        });
+      }
+      return value;
+    };
+
+    const extra = Object.fromEntries(
+      Object.entries(data).filter(([key]) => !KNOWN_FRONTMATTER_KEYS.has(key))
+    );
+
+    const name = read('name', toText, 'a string');
+    const description = read('description', toText, 'a string');
+    const compatibility = read('compatibility', toText, 'a string');
+
+    // Only SKILL.md-style files with frontmatter are held to the spec
+    if (frontmatterMatch) {
+      diagnostics.push(
+        ...this.checkSpecConstraints({ name, description, compatibility }, lines, directoryName)
+      );
+    }
+
+    // Declared parameters take precedence over the "## Parameters" section
+    let parameters: ParameterSchema[];
+    if (data.parameters !== undefined && data.parameters !== null) {
+      const declared = toParameterDeclarations(data.parameters);
+      parameters = declared.parameters;
+      diagnostics.push(
+        ...declared.errors.map(
+          (message): SkillDiagnostic => ({
+            severity: 'error',
+            rule: 'parameter-schema',
+            message,
+            line: lines.get('parameters'),
+          })
+        )
+      );
+    } else {
+      parameters = this.extractParameters(body);
+    }
 
     return {
-      name: (frontmatter.name as string) || this.extractTitle(body) || '',
-      description: (frontmatter.description as string) || this.extractDescription(body) || '',
+      name: name || this.extractTitle(body) || '',
+      description: description || this.extractDescription(body) || '',
       content: body.trim(),
       metadata: {
-        author: frontmatter.author as string | undefined,
-        version: frontmatter.version as string | undefined,
-        tags: Array.isArray(frontmatter.tags) ? frontmatter.tags : undefined,
-        requirements: Array.isArray(frontmatter.requirements) ? frontmatter.requirements : undefined,
+        author: read('author', toText, 'a string'),
+        version: read('version', toText, 'a string'),
+        tags: read('tags', toTextList, 'a list of strings'),
+        requirements: read('requirements', toTextList, 'a list of strings'),
+        license: read('license', toText, 'a string'),
+        allowedTools: read('allowed-tools', toToolList, 'a list of tool names'),
+        compatibility,
+        customMetadata: read('metadata', toStringMap, 'a map of string values'),
+        extra: Object.keys(extra).length > 0 ? extra : undefined,
       },
       parameters,
+      diagnostics,
     };
   }
 
-  private parseFrontmatter(frontmatter: string): Record<string, unknown> {
-    const result: Record<string, unknown> = {};
+  /** Checks the naming and length rules of the Agent Skills specification */
+  private checkSpecConstraints(
+    fields: { name?: string; description?: string; compatibility?: string },
+    lines: Map<string, number>,
+    directoryName?: string
+  ): SkillDiagnostic[] {
+    const diagnostics: SkillDiagnostic[] = [];
+    const report = (rule: string, key: string, message: string) =>
+      diagnostics.push({ severity: 'warning', rule, message, line: lines.get(key) });
+    const { name, description, compatibility } = fields;
+
+    if (!name) {
+      report('name-missing', 'name', "Frontmatter is missing the required 'name' field");
+    } else {
+      if (name.length > SPEC_NAME_MAX_LENGTH) {
+        report(
+          'name-length',
+          'name',
+          `Skill name is ${name.length} characters; the maximum is ${SPEC_NAME_MAX_LENGTH}`
+        );
+      }
+      if (!SPEC_NAME_PATTERN.test(name)) {
+        report(
+          'name-format',
+          'name',
+          `Skill name '${name}' must use lowercase letters, digits and single hyphens, ` +
+            'and must not start or end with a hyphen'
+        );
+      }
+      if (directoryName && name !== directoryName) {
+        report(
+          'name-directory-mismatch',
+          'name',
+          `Skill name '${name}' does not match its directory '${directoryName}'`
+        );
+      }
+    }
+
+    if (!description) {
+      report(
+        'description-missing',
+        'description',
+        "Frontmatter is missing the required 'description' field"
+      );
+    } else if (description.length > SPEC_DESCRIPTION_MAX_LENGTH) {
+      report(
+        'description-length',
+        'description',
+        `Description is ${description.length} characters; the maximum is ${SPEC_DESCRIPTION_MAX_LENGTH}`
+      );
+    }
+
+    if (compatibility && compatibility.length > SPEC_COMPATIBILITY_MAX_LENGTH) {
+      report(
+        'compatibility-length',
+        'compatibility',
+        `Compatibility is ${compatibility.length} characters; the maximum is ${SPEC_COMPATIBILITY_MAX_LENGTH}`
+      );
+    }
+
+    return diagnostics;
+  }
+
+  /**
+   * Parses YAML frontmatter. Malformed YAML yields an error diagnostic pointing
+   * at the offending line; single-line `key: value` pairs are still recovered,
+   * since many published skills have unquoted colons in their descriptions.
+   */
+  private parseFrontmatter(frontmatter: string): Frontmatter {
+    // Frontmatter starts on the second line of the file, after the opening "---"
+    const lineCounter = new LineCounter();
+    const toFileLine = (offset: number) => lineCounter.linePos(offset).line + 1;
+
+    const document = parseDocument(frontmatter, { lineCounter, prettyErrors: false });
+    const diagnostics: SkillDiagnostic[] = [
+      ...document.errors.map(
+        (error): SkillDiagnostic => ({
+          severity: 'error',
+          rule: 'frontmatter-syntax',
+          message: `Invalid frontmatter: ${error.message}`,
+          line: toFileLine(error.pos[0]),
+        })
+      ),
+      ...document.warnings.map(
+        (warning): SkillDiagnostic => ({
+          severity: 'warning',
+          rule: 'frontmatter-syntax',
+          message: `Frontmatter: ${warning.message}`,
+          line: toFileLine(warning.pos[0]),
+        })
+      ),
+    ];
+    if (document.errors.length > 0) {
+      return { ...this.parseLooseFrontmatter(frontmatter), diagnostics };
+    }
 
-    for (const line of frontmatter.split('\n')) {
-      const match = line.match(/^([^:]+):\s*(.+)$/);
-      if (match) {
-        const [, key, value] = match;
-        // Try to parse as array if it looks like one
-        if (value.startsWith('[') && value.endsWith(']')) {
-          try {
-            result[key.trim()] = JSON.parse(value);
-          } catch {
-            result[key.trim()] = value.trim();
-          }
-        } else {
-          result[key.trim()] = value.trim();
-        }
+    const data: unknown = document.toJS();
+    if (data === null || data === undefined) {
+      return { data: {}, lines: new Map(), diagnostics };
+    }
+    if (!isMap(document.contents)) {
+      diagnostics.push({
+        severity: 'error',
+        rule: 'frontmatter-syntax',
+        message: 'Frontmatter must be a mapping of keys to values',
+        line: 2,
+      });
+      return { data: {}, lines: new Map(), diagnostics };
+    }
+
+    const lines = new Map<string, number>();
+    for (const pair of document.contents.items) {
+      if (isScalar(pair.key) && pair.key.range) {
+        lines.set(String(pair.key.value), toFileLine(pair.key.range[0]));
       }
     }
 
-    return result;
+    return { data: data as Record<string, unknown>, lines, diagnostics };
+  }
+
+  private parseLooseFrontmatter(frontmatter: string): Omit<Frontmatter, 'diagnostics'> {
+    const data: Record<string, unknown> = {};
+    const lines = new Map<string, number>();
+
+    frontmatter.split(/\r?\n/).forEach((line, index) => {
+      const match = line.match(/^([\w-]+):\s*(\S.*)$/);
+      if (match) {
+        data[match[1]] = match[2].trim();
+        lines.set(match[1], index + 2);
+      }
+    });
+
+    return { data, lines };
   }
 
   private extractTitle(content: string): string | null {
@@ -389,7 +788,7 @@ export class SkillParser {
 
         // First part is the type
         const typeStr = typeHintParts[0];
-        if (['string', 'number', 'boolean', 'object', 'array'].includes(typeStr)) {
+        if (parameterTypeSchema.safeParse(typeStr).success) {
           type = typeStr as ParameterSchema['type'];
         }
 
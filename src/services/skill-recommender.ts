@@ -0,0 +1,191 @@
+import { extname, basename } from 'path';
+import { Skill } from '../models/skill.js';
+import { SkillRegistry } from '../models/registry.js';
+import { SearchResult, SkillSearchIndex, tokenize } from './skill-search.js';
+
+export const DEFAULT_RECOMMENDATION_LIMIT = 5;
+export const MAX_RECOMMENDATION_LIMIT = 20;
+
+// Relative weight of each signal in the final score
+const TASK_WEIGHT = 0.6;
+const HINT_WEIGHT = 0.25;
+const ORG_WEIGHT = 0.15;
+
+/** Technologies implied by a file extension */
+const EXTENSION_HINTS: Record<string, string[]> = {
+  '.ts': ['typescript'],
+  '.tsx': ['typescript', 'react'],
+  '.js': ['javascript'],
+  '.jsx': ['javascript', 'react'],
+  '.mjs': ['javascript'],
+  '.vue': ['vue'],
+  '.svelte': ['svelte'],
+  '.py': ['python'],
+  '.ipynb': ['python', 'jupyter', 'notebook'],
+  '.rb': ['ruby'],
+  '.go': ['golang'],
+  '.rs': ['rust'],
+  '.java': ['java'],
+  '.kt': ['kotlin', 'android'],
+  '.swift': ['swift', 'ios'],
+  '.php': ['php'],
+  '.cs': ['csharp', 'dotnet'],
+  '.sol': ['solidity', 'smart', 'contract'],
+  '.sql': ['sql', 'database'],
+  '.tf': ['terraform', 'infrastructure'],
+  '.css': ['css', 'frontend'],
+  '.scss': ['css', 'frontend'],
+  '.html': ['html', 'frontend'],
+  '.md': ['markdown', 'documentation'],
+  '.pdf': ['pdf'],
+  '.docx': ['docx', 'word', 'document'],
+  '.xlsx': ['xlsx', 'excel', 'spreadsheet'],
+  '.pptx': ['pptx', 'powerpoint', 'presentation'],
+};
+
+/** Technologies implied by well-known file names */
+const FILE_NAME_HINTS: Record<string, string[]> = {
+  dockerfile: ['docker', 'container'],
+  'docker-compose.yml': ['docker', 'container'],
+  'package.json': ['javascript', 'node'],
+  'next.config.js': ['nextjs', 'next', 'react'],
+  'next.config.mjs': ['nextjs', 'next', 'react'],
+  'next.config.ts': ['nextjs', 'next', 'react'],
+  'cargo.toml': ['rust'],
+  'go.mod': ['golang'],
+  'pyproject.toml': ['python'],
+  'requirements.txt': ['python'],
+  'foundry.toml': ['solidity', 'foundry'],
+};
+
+export interface RecommendationRequest {
+  /** Natural-language description of what the agent is trying to do */
+  task: string;
+  /** Paths of files involved in the task, used for technology hints */
+  files?: string[];
+  /** Languages or frameworks in use, e.g. "typescript" or "nextjs" */
+  languages?: string[];
+  limit?: number;
+}
+
+export interface Recommendation {
+  skill: Skill;
+  /** Relevance between 0 and 1 */
+  score: number;
+  reason: string;
+}
+
+interface Hint {
+  keyword: string;
+  /** Where the hint came from, for the reason text (".tsx files", "typescript") */
+  origin: string;
+}
+
+function collectHints(files: string[], languages: string[]): Hint[] {
+  const hints: Hint[] = [];
+
+  for (const file of files) {
+    const name = basename(file).toLowerCase();
+    const extension = extname(name);
+    for (const keyword of FILE_NAME_HINTS[name] ?? []) {
+      hints.push({ keyword, origin: name });
+    }
+    for (const keyword of EXTENSION_HINTS[extension] ?? []) {
+      hints.push({ keyword, origin: `${extension} files` });
+    }
+  }
+  for (const language of languages) {
+    hints.push({ keyword: language.toLowerCase(), origin: language });
+  }
+
+  return hints;
+}
+
+/** Scores relative to the best result, so they are comparable across signals */
+function normalizeScores(
+  results: SearchResult[]
+): Map<string, SearchResult & { relative: number }> {
+  const best = results[0]?.score || 1;
+  return new Map(
+    results.map((result) => [result.skill.id, { ...result, relative: result.score / best }])
+  );
+}
+
+function formatList(values: string[]): string {
+  return values.map((value) => `"${value}"`).join(', ');
+}
+
+/**
+ * Ranks skills for a task description using local signals only: text
+ * relevance of the task, technology hints from file paths and languages, and
+ * organizations the task names (e.g. "Stripe"). Runs fully offline.
+ */
+export class SkillRecommender {
+  private registry: SkillRegistry;
+  private searchIndex: SkillSearchIndex;
+
+  constructor(registry: SkillRegistry, searchIndex: SkillSearchIndex) {
+    this.registry = registry;
+    this.searchIndex = searchIndex;
+  }
+
+  recommend(request: RecommendationRequest): Recommendation[] {
+    const limit = Math.min(
+      Math.max(Math.floor(request.limit ?? DEFAULT_RECOMMENDATION_LIMIT), 1),
+      MAX_RECOMMENDATION_LIMIT
+    );
+    const taskTerms = new Set(tokenize(request.task));
+    const hints = collectHints(request.files ?? [], request.languages ?? []);
+
+    const taskMatches = normalizeScores(this.searchIndex.search(request.task));
+    const hintMatches = normalizeScores(
+      this.searchIndex.search(hints.map((hint) => hint.keyword).join(' '))
+    );
+
+    const recommendations: Recommendation[] = [];
+    for (const skill of this.registry.listSkills()) {
+      const taskMatch = taskMatches.get(skill.id);
+      const hintMatch = hintMatches.get(skill.id);
+      const org = skill.metadata.sourceOrg;
+      const orgMentioned = !!org && tokenize(org).some((term) => taskTerms.has(term));
+
+      if (!taskMatch && !hintMatch) {
+        continue;
+      }
+
+      const score =
+        TASK_WEIGHT * (taskMatch?.relative ?? 0) +
+        HINT_WEIGHT * (hintMatch?.relative ?? 0) +
+        ORG_WEIGHT * (orgMentioned ? 1 : 0);
+
+      const reasons: string[] = [];
+      if (taskMatch) {
+        const terms = formatList(taskMatch.matchedTerms.slice(0, 3));
+        reasons.push(`Matches ${terms} in its ${taskMatch.matchedFields.join(', ')}`);
+      }
+      if (orgMentioned) {
+        reasons.push(`From ${org}, which the task mentions`);
+      }
+      if (hintMatch) {
+        const origins = new Set(
+          hints
+            .filter((hint) =>
+              hintMatch.matchedTerms.some((term) => tokenize(hint.keyword).includes(term))
+            )
+            .map((hint) => hint.origin)
+        );
+        reasons.push(`Relevant to ${Array.from(origins).join(', ')}`);
+      }
+
+      recommendations.push({
+        skill,
+        score: Math.round(score * 100) / 100,
+        reason: reasons.join('; '),
+      });
+    }
+
+    return recommendations
+      .sort((a, b) => b.score - a.score || a.skill.id.localeCompare(b.skill.id))
+      .slice(0, limit);
+  }
+}
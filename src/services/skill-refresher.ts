@@ -0,0 +1,109 @@
+import { SkillCollision, SkillRegistry } from '../models/registry.js';
+import { Skill } from '../models/skill.js';
+import { RefreshOptions, RefreshResult } from '../models/tool-output.js';
+import { GitSyncResult } from './git-sync.js';
+import { getLogger } from '../utils/logger.js';
+
+const logger = getLogger();
+
+export interface SkillRefresherOptions {
+  /** Fetches and updates the clone of the skills repository */
+  sync: (signal?: AbortSignal) => Promise<GitSyncResult>;
+  /** Parses every skill without touching the registry */
+  parseSkills: (options: {
+    signal?: AbortSignal;
+    onProgress?: (message: string) => void;
+  }) => Promise<Skill[]>;
+  /** Persists the registry after a reload */
+  saveSkills: (registry: SkillRegistry) => Promise<void>;
+  /** Called after the registry was reloaded */
+  onReload?: () => void;
+}
+
+/**
+ * Logs the short ids shared by several skills, which only their full ids tell
+ * apart, and the full ids claimed by several skills, of which only one is loaded
+ */
+export function reportCollisions(registry: SkillRegistry): SkillCollision[] {
+  const collisions = registry.getCollisions();
+  for (const { alias, skillIds, sourcePaths } of collisions) {
+    if (sourcePaths) {
+      logger.warn(
+        `Skill id '${alias}' is claimed by ${sourcePaths.join(', ')}; only one of them is loaded`
+      );
+    } else {
+      logger.warn(`Skill id '${alias}' is shared by ${skillIds.join(', ')}; use the full id`);
+    }
+  }
+  return collisions;
+}
+
+/**
+ * Runs manual refreshes: syncs the repository and, when it changed, reparses
+ * the skills and swaps them into the registry in one step.
+ */
+export class SkillRefresher {
+  private registry: SkillRegistry;
+  private options: SkillRefresherOptions;
+  /**
+   * Set when the clone was updated but the skills were not reloaded (e.g. the
+   * refresh was cancelled), so the next refresh reparses even without new commits
+   */
+  private reloadPending = false;
+
+  constructor(registry: SkillRegistry, options: SkillRefresherOptions) {
+    this.registry = registry;
+    this.options = options;
+  }
+
+  async refresh({ signal, onProgress }: RefreshOptions = {}): Promise<RefreshResult> {
+    const oldCount = this.registry.getSkillCount();
+    logger.info('Manual refresh triggered via MCP tool...');
+
+    let progress = 0;
+    onProgress?.({ progress, message: 'Syncing skills repository' });
+    const result = await this.options.sync(signal);
+    // The clone may have moved even if the refresh was cancelled meanwhile
+    if (result.success && result.skillsChanged) {
+      this.reloadPending = true;
+    }
+    signal?.throwIfAborted();
+    onProgress?.({ progress: ++progress, message: result.message });
+
+    if (result.success && this.reloadPending) {
+      const skills = await this.options.parseSkills({
+        signal,
+        onProgress: (message) => onProgress?.({ progress: ++progress, message }),
+      });
+      signal?.throwIfAborted();
+
+      this.registry.replaceSkills(skills);
+      this.reloadPending = false;
+      const collisions = reportCollisions(this.registry);
+
+      await this.options.saveSkills(this.registry);
+      this.registry.setLastSync(new Date());
+      onProgress?.({ progress: ++progress, total: progress, message: 'Saved skills cache' });
+      this.options.onReload?.();
+
+      const newCount = this.registry.getSkillCount();
+      return {
+        success: true,
+        skillsUpdated: newCount,
+        skillsAdded: Math.max(0, newCount - oldCount),
+        skillsRemoved: Math.max(0, oldCount - newCount),
+        collisions,
+        message: `Skills refreshed successfully. Now have ${newCount} skills.`,
+      };
+    }
+
+    return {
+      success: result.success,
+      skillsUpdated: this.registry.getSkillCount(),
+      skillsAdded: 0,
+      skillsRemoved: 0,
+      collisions: this.registry.getCollisions(),
+      message: result.success ? 'No changes detected' : result.message,
+    };
+  }
+}
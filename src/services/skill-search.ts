@@ -0,0 +1,326 @@
+import { Skill } from '../models/skill.js';
+import { SkillChange, SkillRegistry } from '../models/registry.js';
+import { getLogger } from '../utils/logger.js';
+
+const logger = getLogger();
+
+export const DEFAULT_SEARCH_LIMIT = 10;
+export const MAX_SEARCH_LIMIT = 50;
+
+export type SearchField = 'name' | 'tags' | 'description' | 'content';
+
+/** Relative weight of a term occurrence in each field */
+const FIELD_BOOSTS: Record<SearchField, number> = {
+  name: 3,
+  tags: 2,
+  description: 2,
+  content: 1,
+};
+
+const SEARCH_FIELDS = Object.keys(FIELD_BOOSTS) as SearchField[];
+
+// Standard BM25 parameters: term frequency saturation and length normalization
+const K1 = 1.2;
+const B = 0.75;
+
+const SNIPPET_LENGTH = 160;
+
+const STOP_WORDS = new Set([
+  'a',
+  'an',
+  'and',
+  'are',
+  'as',
+  'at',
+  'be',
+  'by',
+  'for',
+  'from',
+  'how',
+  'in',
+  'into',
+  'is',
+  'it',
+  'of',
+  'on',
+  'or',
+  'that',
+  'the',
+  'this',
+  'to',
+  'use',
+  'when',
+  'with',
+  'you',
+  'your',
+]);
+
+export interface SearchResult {
+  skill: Skill;
+  score: number;
+  /** Fields in which at least one query term occurred */
+  matchedFields: SearchField[];
+  /** Normalized query terms the skill matched */
+  matchedTerms: string[];
+  /** Excerpt of the skill content around the first match, if the content matched */
+  snippet?: string;
+  /** Embedding similarity to the query, set by semantic and hybrid search */
+  similarity?: number;
+}
+
+interface IndexedDocument {
+  skill: Skill;
+  signature: string;
+  fieldLengths: Record<SearchField, number>;
+  terms: Set<string>;
+}
+
+/**
+ * Reduces simple English plurals so "pdfs" matches "pdf" and "libraries"
+ * matches "library". Deliberately conservative: no other suffixes are removed.
+ */
+function stem(token: string): string {
+  if (token.length > 4 && token.endsWith('ies')) {
+    return `${token.slice(0, -3)}y`;
+  }
+  if (token.length > 4 && /(sses|xes|ches|shes)$/.test(token)) {
+    return token.slice(0, -2);
+  }
+  if (token.length > 3 && token.endsWith('s') && !token.endsWith('ss')) {
+    return token.slice(0, -1);
+  }
+  return token;
+}
+
+/**
+ * Splits text into normalized search terms: lowercased alphanumeric words with
+ * stop words removed and plurals reduced.
+ */
+export function tokenize(text: string): string[] {
+  return (text.toLowerCase().match(/[a-z0-9]+/g) ?? [])
+    .filter((token) => token.length > 1 && !STOP_WORDS.has(token))
+    .map(stem);
+}
+
+function getFieldText(skill: Skill, field: SearchField): string {
+  switch (field) {
+    case 'name':
+      // Ids are often more specific than display names ("pdf" vs "PDF Tools")
+      return `${skill.name} ${skill.id}`;
+    case 'tags':
+      return (skill.metadata.tags ?? []).join(' ');
+    case 'description':
+      return skill.description;
+    case 'content':
+      return skill.content;
+  }
+}
+
+function getSignature(skill: Skill): string {
+  return SEARCH_FIELDS.map((field) => getFieldText(skill, field)).join('\u0000');
+}
+
+/**
+ * Cuts a window of the content around the first occurrence of a query term,
+ * aligned to word boundaries and with whitespace collapsed.
+ */
+export function buildSnippet(content: string, terms: string[]): string | undefined {
+  const text = content.replace(/\s+/g, ' ').trim();
+  const lower = text.toLowerCase();
+
+  let position = -1;
+  for (const term of terms) {
+    // Match the stem as a word prefix, so "library" also finds "libraries"
+    const match = new RegExp(`\\b${term.replace(/y$/, '')}`).exec(lower);
+    if (match && (position === -1 || match.index < position)) {
+      position = match.index;
+    }
+  }
+  if (position === -1) {
+    return undefined;
+  }
+
+  let start = Math.max(0, position - Math.floor(SNIPPET_LENGTH / 3));
+  let end = Math.min(text.length, start + SNIPPET_LENGTH);
+  if (start > 0) {
+    start = text.indexOf(' ', start) + 1 || start;
+  }
+  if (end < text.length) {
+    end = text.lastIndexOf(' ', end) > position ? text.lastIndexOf(' ', end) : end;
+  }
+
+  return `${start > 0 ? '…' : ''}${text.slice(start, end).trim()}${end < text.length ? '…' : ''}`;
+}
+
+/**
+ * Inverted index over skill names, tags, descriptions and content, ranked with
+ * BM25F (BM25 with per-field boosts and length normalization). The index
+ * follows registry changes, re-indexing only skills whose text changed.
+ */
+export class SkillSearchIndex {
+  private documents: Map<string, IndexedDocument> = new Map();
+  /** term -> skill id -> occurrences per field */
+  private postings: Map<string, Map<string, Partial<Record<SearchField, number>>>> = new Map();
+  private totalFieldLengths: Record<SearchField, number> = {
+    name: 0,
+    tags: 0,
+    description: 0,
+    content: 0,
+  };
+  private unsubscribe: () => void;
+
+  constructor(registry: SkillRegistry) {
+    for (const skill of registry.listSkills()) {
+      this.addDocument(skill);
+    }
+    this.unsubscribe = registry.onChange((change) => this.applyChange(change));
+  }
+
+  /** Stops following registry changes */
+  dispose(): void {
+    this.unsubscribe();
+  }
+
+  getDocumentCount(): number {
+    return this.documents.size;
+  }
+
+  /**
+   * Returns skills matching any query term, best first. Ties are broken by id
+   * so results are stable.
+   */
+  search(query: string): SearchResult[] {
+    const terms = Array.from(new Set(tokenize(query)));
+    if (terms.length === 0 || this.documents.size === 0) {
+      return [];
+    }
+
+    const documentCount = this.documents.size;
+    const averageLengths = Object.fromEntries(
+      SEARCH_FIELDS.map((field) => [field, this.totalFieldLengths[field] / documentCount || 1])
+    ) as Record<SearchField, number>;
+
+    const scores = new Map<
+      string,
+      { score: number; fields: Set<SearchField>; terms: Set<string> }
+    >();
+
+    for (const term of terms) {
+      const postings = this.postings.get(term);
+      if (!postings) {
+        continue;
+      }
+
+      const idf = Math.log(1 + (documentCount - postings.size + 0.5) / (postings.size + 0.5));
+
+      for (const [id, frequencies] of postings) {
+        const document = this.documents.get(id)!;
+
+        // Combine field frequencies into one boosted, length-normalized frequency
+        let weightedFrequency = 0;
+        for (const field of SEARCH_FIELDS) {
+          const frequency = frequencies[field];
+          if (!frequency) {
+            continue;
+          }
+          const lengthRatio = document.fieldLengths[field] / averageLengths[field];
+          weightedFrequency += (FIELD_BOOSTS[field] * frequency) / (1 - B + B * lengthRatio);
+        }
+
+        const entry = scores.get(id) ?? {
+          score: 0,
+          fields: new Set<SearchField>(),
+          terms: new Set<string>(),
+        };
+        entry.score += (idf * weightedFrequency) / (K1 + weightedFrequency);
+        entry.terms.add(term);
+        for (const field of SEARCH_FIELDS) {
+          if (frequencies[field]) {
+            entry.fields.add(field);
+          }
+        }
+        scores.set(id, entry);
+      }
+    }
+
+    return Array.from(scores, ([id, { score, fields, terms: matched }]) => {
+      const skill = this.documents.get(id)!.skill;
+      return {
+        skill,
+        score,
+        matchedFields: SEARCH_FIELDS.filter((field) => fields.has(field)),
+        matchedTerms: terms.filter((term) => matched.has(term)),
+        snippet: fields.has('content') ? buildSnippet(skill.content, terms) : undefined,
+      };
+    }).sort((a, b) => b.score - a.score || a.skill.id.localeCompare(b.skill.id));
+  }
+
+  private applyChange(change: SkillChange): void {
+    for (const id of change.removed) {
+      this.removeDocument(id);
+    }
+
+    let reindexed = 0;
+    for (const skill of change.upserted) {
+      const existing = this.documents.get(skill.id);
+      if (existing?.signature === getSignature(skill)) {
+        // Text is unchanged; only keep the latest skill object for results
+        existing.skill = skill;
+        continue;
+      }
+      this.removeDocument(skill.id);
+      this.addDocument(skill);
+      reindexed++;
+    }
+
+    if (reindexed > 0 || change.removed.length > 0) {
+      logger.debug(
+        `Search index updated: ${reindexed} skills indexed, ${change.removed.length} removed`
+      );
+    }
+  }
+
+  private addDocument(skill: Skill): void {
+    const fieldLengths = { name: 0, tags: 0, description: 0, content: 0 };
+    const terms = new Set<string>();
+
+    for (const field of SEARCH_FIELDS) {
+      const tokens = tokenize(getFieldText(skill, field));
+      fieldLengths[field] = tokens.length;
+      this.totalFieldLengths[field] += tokens.length;
+
+      for (const token of tokens) {
+        terms.add(token);
+        let postings = this.postings.get(token);
+        if (!postings) {
+          postings = new Map();
+          this.postings.set(token, postings);
+        }
+        const frequencies = postings.get(skill.id) ?? {};
+        frequencies[field] = (frequencies[field] ?? 0) + 1;
+        postings.set(skill.id, frequencies);
+      }
+    }
+
+    this.documents.set(skill.id, { skill, signature: getSignature(skill), fieldLengths, terms });
+  }
+
+  private removeDocument(id: string): void {
+    const document = this.documents.get(id);
+    if (!document) {
+      return;
+    }
+
+    for (const term of document.terms) {
+      const postings = this.postings.get(term);
+      postings?.delete(id);
+      if (postings?.size === 0) {
+        this.postings.delete(term);
+      }
+    }
+    for (const field of SEARCH_FIELDS) {
+      this.totalFieldLengths[field] -= document.fieldLengths[field];
+    }
+    this.documents.delete(id);
+  }
+}
@@ -0,0 +1,180 @@
+import { TocEntry } from '../models/tool-output.js';
+import { estimateTokens } from '../utils/tokens.js';
+
+const HEADING_REGEX = /^(#{1,6})[ \t]+(.+?)(?:[ \t]+#+)?[ \t]*$/;
+const FENCE_REGEX = /^[ \t]{0,3}(`{3,}|~{3,})/;
+
+/** Separates the titles of a heading path, e.g. "Usage > Examples" */
+export const HEADING_PATH_SEPARATOR = ' > ';
+
+export interface SkillSection {
+  title: string;
+  /** Heading level, 1 for "#" through 6 */
+  level: number;
+  /** Titles from the outermost heading down to this one */
+  path: string[];
+  /**
+   * Character offsets of the section in the content. A section runs from its
+   * heading to the next heading of the same or a higher level, so it includes
+   * its subsections.
+   */
+  start: number;
+  end: number;
+  children: SkillSection[];
+}
+
+/** Thrown when requested sections do not exist in a skill */
+export class SectionNotFoundError extends Error {
+  constructor(missing: string[], available: string[]) {
+    super(
+      `Section not found: ${missing.join(', ')}. ` +
+        `Available sections: ${available.length > 0 ? available.join(', ') : 'none'}`
+    );
+    this.name = 'SectionNotFoundError';
+  }
+}
+
+/**
+ * Parses the markdown headings of skill content into a tree. Headings inside
+ * fenced code blocks are ignored, so "# comment" lines in shell examples do not
+ * start sections.
+ */
+export function parseSections(content: string): SkillSection[] {
+  const roots: SkillSection[] = [];
+  const open: SkillSection[] = [];
+  let fence: string | null = null;
+  let offset = 0;
+
+  for (const line of content.split('\n')) {
+    const fenceMatch = line.match(FENCE_REGEX);
+    if (fenceMatch) {
+      const marker = fenceMatch[1];
+      if (!fence) {
+        fence = marker;
+      } else if (marker[0] === fence[0] && marker.length >= fence.length) {
+        fence = null;
+      }
+    }
+
+    const heading = fence ? null : line.match(HEADING_REGEX);
+    if (heading) {
+      const level = heading[1].length;
+      while (open.length > 0 && open[open.length - 1].level >= level) {
+        (open.pop() as SkillSection).end = offset;
+      }
+      const parent = open[open.length - 1];
+      const section: SkillSection = {
+        title: heading[2].trim(),
+        level,
+        path: [...(parent?.path ?? []), heading[2].trim()],
+        start: offset,
+        end: content.length,
+        children: [],
+      };
+      (parent?.children ?? roots).push(section);
+      open.push(section);
+    }
+
+    offset += line.length + 1;
+  }
+
+  return roots;
+}
+
+/** Lists sections depth-first, which is document order */
+export function flattenSections(sections: SkillSection[]): SkillSection[] {
+  return sections.flatMap((section) => [section, ...flattenSections(section.children)]);
+}
+
+export interface SectionChunk {
+  /** Heading path of the section, empty for text before the first heading */
+  path: string[];
+  /** The heading and the text up to the next heading of any level */
+  text: string;
+}
+
+/**
+ * Splits content at every heading, so each chunk holds one section's own text
+ * without its subsections. Joined in order, the chunks give back the content.
+ */
+export function splitIntoChunks(content: string): SectionChunk[] {
+  const sections = flattenSections(parseSections(content));
+  const chunks: SectionChunk[] = [];
+
+  const preamble = content.slice(0, sections[0]?.start ?? content.length);
+  if (preamble.trim()) {
+    chunks.push({ path: [], text: preamble });
+  }
+  sections.forEach((section, index) => {
+    const end = sections[index + 1]?.start ?? content.length;
+    chunks.push({ path: section.path, text: content.slice(section.start, end) });
+  });
+
+  return chunks;
+}
+
+/** Lists every section with its size, so agents can fetch only the parts they need */
+export function buildTableOfContents(content: string): TocEntry[] {
+  return flattenSections(parseSections(content)).map((section) => {
+    const text = content.slice(section.start, section.end);
+    return {
+      title: section.title,
+      level: section.level,
+      path: section.path,
+      size: text.length,
+      tokens: estimateTokens(text),
+    };
+  });
+}
+
+/**
+ * A selector names a section by its title or by a heading path such as
+ * "Usage > Examples", which matches the trailing titles of a section's path.
+ * Matching ignores case.
+ */
+function matchesSelector(section: SkillSection, selector: string): boolean {
+  const titles = selector.split(HEADING_PATH_SEPARATOR.trim()).map((title) =>
+    title
+      .replace(/^#+\s*/, '')
+      .trim()
+      .toLowerCase()
+  );
+  if (titles.length > section.path.length) {
+    return false;
+  }
+  const tail = section.path.slice(-titles.length).map((title) => title.toLowerCase());
+  return titles.every((title, index) => title === tail[index]);
+}
+
+/**
+ * Returns the parts of skill content under the selected headings, in document
+ * order. Sections nested in another selected section are not repeated.
+ *
+ * @throws SectionNotFoundError when a selector matches no section
+ */
+export function selectSections(content: string, selectors: string[]): string {
+  const sections = flattenSections(parseSections(content));
+  const missing = selectors.filter(
+    (selector) => !sections.some((section) => matchesSelector(section, selector))
+  );
+  if (missing.length > 0) {
+    throw new SectionNotFoundError(
+      missing,
+      sections.map((section) => section.path.join(HEADING_PATH_SEPARATOR))
+    );
+  }
+
+  const selected = sections.filter((section) =>
+    selectors.some((selector) => matchesSelector(section, selector))
+  );
+  const parts: string[] = [];
+  let coveredUntil = -1;
+  for (const section of selected) {
+    if (section.start < coveredUntil) {
+      continue;
+    }
+    parts.push(content.slice(section.start, section.end).trim());
+    coveredUntil = section.end;
+  }
+  return parts.join('\n\n');
+}
@@ -0,0 +1,134 @@
+import { Skill, shortSkillId } from '../models/skill.js';
+import { SkillRegistry } from '../models/registry.js';
+
+/** Suggestions scoring below this are too different to be worth showing */
+const MIN_SUGGESTION_SCORE = 0.5;
+
+/** A match must score at least this to be auto-resolved */
+const AUTO_RESOLVE_MIN_SCORE = 0.85;
+
+export const MAX_SUGGESTIONS = 5;
+
+export interface SkillSuggestion {
+  id: string;
+  name: string;
+  /** Similarity between 0 and 1, where 1 is an exact name or alias match */
+  score: number;
+}
+
+/** Lowercases and joins words with hyphens, the way skill ids are written */
+export function normalizeSkillName(value: string): string {
+  return value
+    .toLowerCase()
+    .replace(/[^a-z0-9]+/g, '-')
+    .replace(/^-+|-+$/g, '');
+}
+
+/** Levenshtein distance using a single rolling row */
+export function editDistance(a: string, b: string): number {
+  if (a === b) {
+    return 0;
+  }
+  if (!a.length || !b.length) {
+    return a.length + b.length;
+  }
+
+  const row = Array.from({ length: b.length + 1 }, (_, i) => i);
+  for (let i = 1; i <= a.length; i++) {
+    let diagonal = row[0];
+    row[0] = i;
+    for (let j = 1; j <= b.length; j++) {
+      const above = row[j];
+      row[j] = Math.min(row[j] + 1, row[j - 1] + 1, diagonal + (a[i - 1] === b[j - 1] ? 0 : 1));
+      diagonal = above;
+    }
+  }
+  return row[b.length];
+}
+
+function tokenOverlap(a: string, b: string): number {
+  const left = new Set(a.split('-').filter(Boolean));
+  const right = new Set(b.split('-').filter(Boolean));
+  const shared = Array.from(left).filter((token) => right.has(token)).length;
+  return shared / (left.size + right.size - shared || 1);
+}
+
+/**
+ * Scores how similar a requested id is to a candidate name: the best of edit
+ * similarity, word overlap ("pdf-skill" vs "pdf") and containment.
+ */
+function scoreCandidate(query: string, candidate: string): number {
+  if (query === candidate) {
+    return 1;
+  }
+
+  const editSimilarity =
+    1 - editDistance(query, candidate) / Math.max(query.length, candidate.length);
+  // Very short strings are contained in too many names to mean anything
+  const shorter = query.length < candidate.length ? query : candidate;
+  const containment =
+    shorter.length >= 3 && (candidate.includes(query) || query.includes(candidate)) ? 0.8 : 0;
+
+  return Math.max(editSimilarity, tokenOverlap(query, candidate), containment);
+}
+
+/**
+ * Names a skill can be referred to by besides its id: its display name, its
+ * short alias ("pdf") and the alias qualified with the source organization
+ * ("anthropics/pdf").
+ */
+function getAliases(skill: Skill): string[] {
+  const shortId = shortSkillId(skill.id);
+  const aliases = [normalizeSkillName(skill.name), shortId];
+  if (skill.metadata.sourceOrg) {
+    aliases.push(normalizeSkillName(`${skill.metadata.sourceOrg}-${shortId}`));
+  }
+  return aliases;
+}
+
+/**
+ * Finds the skills an unknown skill id most likely meant, for "did you mean"
+ * hints and optional auto-resolution.
+ */
+export class SkillSuggester {
+  private registry: SkillRegistry;
+
+  constructor(registry: SkillRegistry) {
+    this.registry = registry;
+  }
+
+  /** Returns the closest skills, best first, above a minimum similarity */
+  suggest(skillId: string, limit = MAX_SUGGESTIONS): SkillSuggestion[] {
+    const query = normalizeSkillName(skillId);
+    if (!query) {
+      return [];
+    }
+
+    const suggestions: SkillSuggestion[] = [];
+    for (const skill of this.registry.listSkills()) {
+      const score = Math.max(
+        ...[skill.id, ...getAliases(skill)].map((candidate) =>
+          scoreCandidate(query, normalizeSkillName(candidate))
+        )
+      );
+      if (score >= MIN_SUGGESTION_SCORE) {
+        suggestions.push({ id: skill.id, name: skill.name, score: Math.round(score * 100) / 100 });
+      }
+    }
+
+    return suggestions
+      .sort((a, b) => b.score - a.score || a.id.localeCompare(b.id))
+      .slice(0, limit);
+  }
+
+  /**
+   * Returns the one skill an unknown id unambiguously refers to: the only
+   * suggestion that is a close match. Returns undefined otherwise.
+   */
+  resolve(skillId: string): Skill | undefined {
+    const close = this.suggest(skillId).filter(
+      (suggestion) => suggestion.score >= AUTO_RESOLVE_MIN_SCORE
+    );
+    return close.length === 1 ? this.registry.getSkill(close[0].id) : undefined;
+  }
+}
@@ -0,0 +1,373 @@
+import { createServer, IncomingMessage, Server as HttpServer, ServerResponse } from 'http';
+import { randomUUID } from 'crypto';
+import { Server } from '@modelcontextprotocol/sdk/server/index.js';
+import { StreamableHTTPServerTransport } from '@modelcontextprotocol/sdk/server/streamableHttp.js';
+import { SSEServerTransport } from '@modelcontextprotocol/sdk/server/sse.js';
+import { isInitializeRequest } from '@modelcontextprotocol/sdk/types.js';
+import { getLogger } from '../utils/logger.js';
+
+const logger = getLogger();
+
+const MCP_PATH = '/mcp';
+const SSE_PATH = '/sse';
+const SSE_MESSAGES_PATH = '/messages';
+const MAX_BODY_BYTES = 4 * 1024 * 1024;
+const DEFAULT_SESSION_IDLE_TIMEOUT_MS = 30 * 60 * 1000;
+
+/** Names a loopback-bound server answers to, with IPv6 addresses in brackets as in Host headers */
+const LOOPBACK_HOSTS = ['localhost', '127.0.0.1', '[::1]'];
+/** Bind addresses for every interface, whose public names the server cannot know */
+const WILDCARD_HOSTS = ['0.0.0.0', '[::]'];
+
+export interface HttpTransportOptions {
+  host: string;
+  port: number;
+  /** How long a session may go without an open request before it is closed (default 30 minutes) */
+  sessionIdleTimeoutMs?: number;
+}
+
+interface Session {
+  server: Server;
+  transport: StreamableHTTPServerTransport | SSEServerTransport;
+  /** Requests (including event streams) still being answered */
+  openRequests: number;
+  idleTimer?: NodeJS.Timeout;
+}
+
+/**
+ * Hosts the MCP server over HTTP so that many clients can share one process.
+ *
+ * Streamable HTTP is served on `/mcp`; the legacy HTTP+SSE transport is served
+ * on `/sse` (event stream) and `/messages` (client-to-server posts). Each client
+ * session gets its own SDK `Server` created by `serverFactory`, all backed by the
+ * same registry and executor.
+ *
+ * To prevent DNS rebinding, requests must carry a Host header naming this
+ * server, and browser requests an Origin of this server as well.
+ *
+ * Clients may vanish without ending their session, so a session without an
+ * open request for `sessionIdleTimeoutMs` is closed; the client then has to
+ * initialize a new one.
+ */
+export class HttpTransportHost {
+  private httpServer: HttpServer | null = null;
+  private sessions: Map<string, Session> = new Map();
+  private serverFactory: () => Server;
+  private options: HttpTransportOptions;
+
+  constructor(serverFactory: () => Server, options: HttpTransportOptions) {
+    this.serverFactory = serverFactory;
+    this.options = options;
+  }
+
+  async listen(): Promise<void> {
+    const httpServer = createServer((req, res) => {
+      this.handleRequest(req, res).catch((error) => {
+        logger.error('Error handling HTTP request:', error);
+        if (!res.headersSent) {
+          this.sendJsonRpcError(res, 500, -32603, 'Internal server error');
+        }
+      });
+    });
+
+    await new Promise<void>((resolve, reject) => {
+      httpServer.once('error', reject);
+      httpServer.listen(this.options.port, this.options.host, () => {
+        httpServer.off('error', reject);
+        resolve();
+      });
+    });
+
+    this.httpServer = httpServer;
+  }
+
+  async close(): Promise<void> {
+    for (const [sessionId, session] of this.sessions) {
+      clearTimeout(session.idleTimer);
+      try {
+        await session.server.close();
+      } catch (error) {
+        logger.warn(`Failed to close session ${sessionId}:`, error);
+      }
+    }
+    this.sessions.clear();
+
+    if (this.httpServer) {
+      const httpServer = this.httpServer;
+      this.httpServer = null;
+      httpServer.closeAllConnections();
+      await new Promise<void>((resolve) => httpServer.close(() => resolve()));
+    }
+  }
+
+  getAddress(): { host: string; port: number } | null {
+    const address = this.httpServer?.address();
+    if (!address || typeof address === 'string') {
+      return null;
+    }
+    return { host: address.address, port: address.port };
+  }
+
+  getServers(): Server[] {
+    return Array.from(this.sessions.values()).map((session) => session.server);
+  }
+
+  getSessionCount(): number {
+    return this.sessions.size;
+  }
+
+  private async handleRequest(req: IncomingMessage, res: ServerResponse): Promise<void> {
+    const rejection = this.validateHostAndOrigin(req);
+    if (rejection) {
+      logger.warn(`Rejected HTTP request: ${rejection}`);
+      this.sendJsonRpcError(res, 403, -32000, rejection);
+      return;
+    }
+
+    const url = new URL(req.url || '/', 'http://localhost');
+
+    switch (url.pathname) {
+      case MCP_PATH:
+        return this.handleStreamableRequest(req, res);
+      case SSE_PATH:
+        if (req.method === 'GET') {
+          return this.handleSseConnect(res);
+        }
+        break;
+      case SSE_MESSAGES_PATH:
+        if (req.method === 'POST') {
+          return this.handleSseMessage(req, res, url.searchParams.get('sessionId'));
+        }
+        break;
+      default:
+        res.writeHead(404).end('Not Found');
+        return;
+    }
+
+    res
+      .writeHead(405, { Allow: url.pathname === SSE_PATH ? 'GET' : 'POST' })
+      .end('Method Not Allowed');
+  }
+
+  /**
+   * Returns why a request is refused, if it is: a Host header that does not
+   * name this server, or an Origin other than the Host. A server bound to all
+   * interfaces accepts any Host but still requires same-origin browser requests.
+   */
+  private validateHostAndOrigin(req: IncomingMessage): string | undefined {
+    const host = req.headers.host?.toLowerCase();
+    const port = this.getAddress()?.port ?? this.options.port;
+    const bindHost = this.options.host.includes(':')
+      ? `[${this.options.host}]`
+      : this.options.host.toLowerCase();
+
+    if (!WILDCARD_HOSTS.includes(bindHost)) {
+      const names = LOOPBACK_HOSTS.includes(bindHost) ? LOOPBACK_HOSTS : [bindHost];
+      const allowedHosts = names.flatMap((name) =>
+        port === 80 ? [name, `${name}:${port}`] : [`${name}:${port}`]
+      );
+      if (!host || !allowedHosts.includes(host)) {
+        return `Invalid Host header: ${req.headers.host ?? '(none)'}`;
+      }
+    }
+
+    const origin = req.headers.origin;
+    if (origin !== undefined) {
+      let originHost: string | undefined;
+      try {
+        originHost = new URL(origin).host;
+      } catch {
+        // "null" and other opaque origins
+      }
+      if (!originHost || originHost !== host) {
+        return `Invalid Origin header: ${origin}`;
+      }
+    }
+
+    return undefined;
+  }
+
+  private async handleStreamableRequest(req: IncomingMessage, res: ServerResponse): Promise<void> {
+    const sessionId = req.headers['mcp-session-id'] as string | undefined;
+    const body = req.method === 'POST' ? await this.readJsonBody(req, res) : undefined;
+    if (body === null) {
+      return;
+    }
+
+    const existing = sessionId ? this.sessions.get(sessionId) : undefined;
+    if (sessionId && existing) {
+      if (!(existing.transport instanceof StreamableHTTPServerTransport)) {
+        this.sendJsonRpcError(res, 400, -32000, 'Session uses a different transport protocol');
+        return;
+      }
+      this.trackRequest(sessionId, existing, res);
+      await existing.transport.handleRequest(req, res, body);
+      return;
+    }
+
+    if (sessionId) {
+      this.sendJsonRpcError(res, 404, -32001, 'Session not found');
+      return;
+    }
+
+    if (req.method !== 'POST' || !isInitializeRequest(body)) {
+      this.sendJsonRpcError(res, 400, -32000, 'Bad Request: No valid session ID provided');
+      return;
+    }
+
+    const server = this.serverFactory();
+    const transport = new StreamableHTTPServerTransport({
+      sessionIdGenerator: () => randomUUID(),
+      onsessioninitialized: (newSessionId) => {
+        const session: Session = { server, transport, openRequests: 0 };
+        this.sessions.set(newSessionId, session);
+        this.trackRequest(newSessionId, session, res);
+        logger.info(`HTTP session opened: ${newSessionId}`);
+      },
+    });
+
+    transport.onclose = () => {
+      const closedId = transport.sessionId;
+      if (closedId && this.removeSession(closedId)) {
+        logger.info(`HTTP session closed: ${closedId}`);
+      }
+    };
+
+    try {
+      await server.connect(transport);
+      await transport.handleRequest(req, res, body);
+    } catch (error) {
+      if (transport.sessionId) {
+        this.removeSession(transport.sessionId);
+      }
+      await server.close().catch(() => {});
+      throw error;
+    }
+  }
+
+  private async handleSseConnect(res: ServerResponse): Promise<void> {
+    const server = this.serverFactory();
+    const transport = new SSEServerTransport(SSE_MESSAGES_PATH, res);
+    const sessionId = transport.sessionId;
+
+    // The event stream stays open for the whole session, so it never goes idle
+    const session: Session = { server, transport, openRequests: 0 };
+    this.sessions.set(sessionId, session);
+    this.trackRequest(sessionId, session, res);
+    logger.info(`SSE session opened: ${sessionId}`);
+
+    res.on('close', () => {
+      if (this.removeSession(sessionId)) {
+        logger.info(`SSE session closed: ${sessionId}`);
+        server
+          .close()
+          .catch((error) => logger.warn(`Failed to close SSE session ${sessionId}:`, error));
+      }
+    });
+
+    // connect() starts the transport, which writes the SSE headers and endpoint event
+    try {
+      await server.connect(transport);
+    } catch (error) {
+      this.removeSession(sessionId);
+      throw error;
+    }
+  }
+
+  private async handleSseMessage(
+    req: IncomingMessage,
+    res: ServerResponse,
+    sessionId: string | null
+  ): Promise<void> {
+    const session = sessionId ? this.sessions.get(sessionId) : undefined;
+    if (!sessionId || !session || !(session.transport instanceof SSEServerTransport)) {
+      this.sendJsonRpcError(res, 404, -32001, 'Session not found');
+      return;
+    }
+
+    const body = await this.readJsonBody(req, res);
+    if (body === null) {
+      return;
+    }
+
+    this.trackRequest(sessionId, session, res);
+    await session.transport.handlePostMessage(req, res, body);
+  }
+
+  /**
+   * Counts a request as open until its response closes, and starts the idle
+   * timer once the session has no open request left.
+   */
+  private trackRequest(sessionId: string, session: Session, res: ServerResponse): void {
+    clearTimeout(session.idleTimer);
+    session.openRequests++;
+
+    res.once('close', () => {
+      session.openRequests--;
+      if (session.openRequests > 0 || this.sessions.get(sessionId) !== session) {
+        return;
+      }
+      const timeout = this.options.sessionIdleTimeoutMs ?? DEFAULT_SESSION_IDLE_TIMEOUT_MS;
+      session.idleTimer = setTimeout(() => this.expireSession(sessionId), timeout);
+      session.idleTimer.unref();
+    });
+  }
+
+  private expireSession(sessionId: string): void {
+    const session = this.sessions.get(sessionId);
+    if (!session || !this.removeSession(sessionId)) {
+      return;
+    }
+    logger.info(`HTTP session expired after inactivity: ${sessionId}`);
+    session.server
+      .close()
+      .catch((error) => logger.warn(`Failed to close session ${sessionId}:`, error));
+  }
+
+  /** Forgets a session and its idle timer; returns whether it was still open */
+  private removeSession(sessionId: string): boolean {
+    const session = this.sessions.get(sessionId);
+    clearTimeout(session?.idleTimer);
+    return this.sessions.delete(sessionId);
+  }
+
+  /**
+   * Reads and parses a JSON request body. Returns null (after writing an error
+   * response) when the body is too large or not valid JSON.
+   */
+  private async readJsonBody(req: IncomingMessage, res: ServerResponse): Promise<unknown | null> {
+    const chunks: Buffer[] = [];
+    let size = 0;
+
+    for await (const chunk of req) {
+      size += (chunk as Buffer).length;
+      if (size > MAX_BODY_BYTES) {
+        this.sendJsonRpcError(res, 413, -32000, 'Request body too large');
+        return null;
+      }
+      chunks.push(chunk as Buffer);
+    }
+
+    try {
+      return JSON.parse(Buffer.concat(chunks).toString('utf-8'));
+    } catch {
+      this.sendJsonRpcError(res, 400, -32700, 'Parse error');
+      return null;
+    }
+  }
+
+  private sendJsonRpcError(
+    res: ServerResponse,
+    status: number,
+    code: number,
+    message: string
+  ): void {
+    res.writeHead(status, { 'Content-Type': 'application/json' }).end(
+      JSON.stringify({
+        jsonrpc: '2.0',
+        error: { code, message },
+        id: null,
+      })
+    );
+  }
+}
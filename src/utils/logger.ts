@@ -1,28 +1,54 @@
 export type LogLevel = 'debug' | 'info' | 'warn' | 'error';
 
+/**
+ * Receives every record, whatever the logger's level, so a sink can apply a
+ * level of its own. The logger's level only governs stderr.
+ */
+export type LogSink = (level: LogLevel, message: string, args: unknown[]) => void;
+
 interface Logger {
   debug(message: string, ...args: unknown[]): void;
   info(message: string, ...args: unknown[]): void;
   warn(message: string, ...args: unknown[]): void;
   error(message: string, ...args: unknown[]): void;
+  setLevel(level: LogLevel): void;
+  getLevel(): LogLevel;
+  addSink(sink: LogSink): () => void;
 }
 
+const LOG_LEVELS: Record<LogLevel, number> = {
+  debug: 0,
+  info: 1,
+  warn: 2,
+  error: 3,
+};
+
 class ConsoleLogger implements Logger {
   private level: LogLevel;
-
-  private readonly levels: Record<LogLevel, number> = {
-    debug: 0,
-    info: 1,
-    warn: 2,
-    error: 3,
-  };
+  private sinks: Set<LogSink> = new Set();
+  private dispatching = false;
 
   constructor(level: LogLevel = 'info') {
     this.level = level;
   }
 
+  setLevel(level: LogLevel): void {
+    this.level = level;
+  }
+
+  getLevel(): LogLevel {
+    return this.level;
+  }
+
+  addSink(sink: LogSink): () => void {
+    this.sinks.add(sink);
+    return () => {
+      this.sinks.delete(sink);
+    };
+  }
+
   private shouldLog(level: LogLevel): boolean {
-    return this.levels[level] >= this.levels[this.level];
+    return LOG_LEVELS[level] >= LOG_LEVELS[this.level];
   }
 
   private formatMessage(level: LogLevel, message: string): string {
@@ -30,28 +56,44 @@ class ConsoleLogger implements Logger {
     return `[${timestamp}] [${level.toUpperCase()}] ${message}`;
   }
 
-  debug(message: string, ...args: unknown[]): void {
-    if (this.shouldLog('debug')) {
-      console.debug(this.formatMessage('debug', message), ...args);
+  private log(level: LogLevel, message: string, args: unknown[]): void {
+    if (this.shouldLog(level)) {
+      // Always write to stderr: stdout carries the stdio transport's JSON-RPC stream
+      console.error(this.formatMessage(level, message), ...args);
     }
+
+    // Records logged by a sink itself (e.g. a failed send) are not re-dispatched
+    if (this.dispatching) {
+      return;
+    }
+    this.dispatching = true;
+    try {
+      for (const sink of this.sinks) {
+        try {
+          sink(level, message, args);
+        } catch {
+          // A broken sink must never break logging
+        }
+      }
+    } finally {
+      this.dispatching = false;
+    }
+  }
+
+  debug(message: string, ...args: unknown[]): void {
+    this.log('debug', message, args);
   }
 
   info(message: string, ...args: unknown[]): void {
-    if (this.shouldLog('info')) {
-      console.info(this.formatMessage('info', message), ...args);
-    }
+    this.log('info', message, args);
   }
 
   warn(message: string, ...args: unknown[]): void {
-    if (this.shouldLog('warn')) {
-      console.warn(this.formatMessage('warn', message), ...args);
-    }
+    this.log('warn', message, args);
   }
 
   error(message: string, ...args: unknown[]): void {
-    if (this.shouldLog('error')) {
-      console.error(this.formatMessage('error', message), ...args);
-    }
+    this.log('error', message, args);
   }
 }
 
@@ -61,8 +103,8 @@ export function createLogger(level: LogLevel = 'info'): Logger {
   if (!loggerInstance) {
     loggerInstance = new ConsoleLogger(level);
   } else {
-    // Update level if logger already exists
-    loggerInstance = new ConsoleLogger(level);
+    // Update the level in place: modules keep the instance they got from getLogger()
+    loggerInstance.setLevel(level);
   }
   return loggerInstance;
 }
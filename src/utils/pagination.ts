@@ -0,0 +1,46 @@
+/** Thrown when a pagination cursor was not issued by this server or is malformed */
+export class InvalidCursorError extends Error {
+  constructor(cursor: string) {
+    super(`Invalid cursor: ${cursor}`);
+    this.name = 'InvalidCursorError';
+  }
+}
+
+export interface Page<T> {
+  items: T[];
+  nextCursor?: string;
+}
+
+/**
+ * Encodes a position in a list as an opaque cursor. Clients must treat it as a
+ * token and pass it back unchanged.
+ */
+export function encodeCursor(offset: number): string {
+  return Buffer.from(JSON.stringify({ offset })).toString('base64url');
+}
+
+export function decodeCursor(cursor: string): number {
+  try {
+    const { offset } = JSON.parse(Buffer.from(cursor, 'base64url').toString('utf-8'));
+    if (Number.isInteger(offset) && offset >= 0) {
+      return offset;
+    }
+  } catch {
+    // Fall through to the error below
+  }
+  throw new InvalidCursorError(cursor);
+}
+
+/**
+ * Returns the page of items starting at the cursor (or the beginning), with a
+ * nextCursor only when more items follow. Items must be in a stable order.
+ */
+export function paginate<T>(items: T[], cursor: string | undefined, limit: number): Page<T> {
+  const offset = cursor ? decodeCursor(cursor) : 0;
+  const end = offset + limit;
+
+  return {
+    items: items.slice(offset, end),
+    nextCursor: end < items.length ? encodeCursor(end) : undefined,
+  };
+}
@@ -0,0 +1,10 @@
+/** Characters per token of typical English markdown for GPT- and Claude-style tokenizers */
+const CHARS_PER_TOKEN = 4;
+
+/**
+ * Estimates how many tokens a text takes up in a model's context. This is a
+ * character-based approximation, good enough for budgeting but not exact.
+ */
+export function estimateTokens(text: string): number {
+  return Math.ceil(text.length / CHARS_PER_TOKEN);
+}
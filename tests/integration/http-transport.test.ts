@@ -0,0 +1,190 @@
+import { describe, it, expect, beforeAll, afterAll } from 'vitest';
+import { request } from 'http';
+import { Client } from '@modelcontextprotocol/sdk/client/index.js';
+import { StreamableHTTPClientTransport } from '@modelcontextprotocol/sdk/client/streamableHttp.js';
+import { SSEClientTransport } from '@modelcontextprotocol/sdk/client/sse.js';
+import { Server } from '@modelcontextprotocol/sdk/server/index.js';
+import { ListToolsRequestSchema } from '@modelcontextprotocol/sdk/types.js';
+import { HttpTransportHost } from '../../src/transports/http-transport.js';
+
+describe('HTTP transport', () => {
+  let host: HttpTransportHost;
+  let baseUrl: string;
+
+  const createServer = () => {
+    const server = new Server(
+      { name: 'test-server', version: '1.0.0' },
+      { capabilities: { tools: {} } }
+    );
+    server.setRequestHandler(ListToolsRequestSchema, async () => ({
+      tools: [{ name: 'ping', inputSchema: { type: 'object' } }],
+    }));
+    return server;
+  };
+
+  beforeAll(async () => {
+    host = new HttpTransportHost(createServer, { host: '127.0.0.1', port: 0 });
+    await host.listen();
+    const address = host.getAddress();
+    baseUrl = `http://127.0.0.1:${address?.port}`;
+  });
+
+  afterAll(async () => {
+    await host.close();
+  });
+
+  it('should serve multiple Streamable HTTP clients with separate sessions', async () => {
+    const clientA = new Client({ name: 'client-a', version: '1.0.0' });
+    const clientB = new Client({ name: 'client-b', version: '1.0.0' });
+    const transportA = new StreamableHTTPClientTransport(new URL(`${baseUrl}/mcp`));
+    const transportB = new StreamableHTTPClientTransport(new URL(`${baseUrl}/mcp`));
+
+    await clientA.connect(transportA);
+    await clientB.connect(transportB);
+
+    expect(transportA.sessionId).toBeDefined();
+    expect(transportB.sessionId).toBeDefined();
+    expect(transportA.sessionId).not.toBe(transportB.sessionId);
+    expect(host.getSessionCount()).toBe(2);
+
+    const tools = await clientA.listTools();
+    expect(tools.tools.map((t) => t.name)).toContain('ping');
+
+    await transportA.terminateSession();
+    await clientA.close();
+    await clientB.close();
+  });
+
+  it('should serve legacy SSE clients', async () => {
+    const client = new Client({ name: 'sse-client', version: '1.0.0' });
+    const transport = new SSEClientTransport(new URL(`${baseUrl}/sse`));
+
+    await client.connect(transport);
+    const tools = await client.listTools();
+    expect(tools.tools.map((t) => t.name)).toContain('ping');
+
+    await client.close();
+  });
+
+  it('should reject requests without a valid session', async () => {
+    const response = await fetch(`${baseUrl}/mcp`, {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/json',
+        Accept: 'application/json, text/event-stream',
+      },
+      body: JSON.stringify({ jsonrpc: '2.0', id: 1, method: 'tools/list' }),
+    });
+
+    expect(response.status).toBe(400);
+  });
+
+  it('should return 404 for unknown sessions', async () => {
+    const response = await fetch(`${baseUrl}/mcp`, {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/json',
+        Accept: 'application/json, text/event-stream',
+        'mcp-session-id': 'does-not-exist',
+      },
+      body: JSON.stringify({ jsonrpc: '2.0', id: 1, method: 'tools/list' }),
+    });
+
+    expect(response.status).toBe(404);
+  });
+
+  describe('DNS rebinding protection', () => {
+    // fetch() does not let callers override the Host header, so use http.request
+    const initialize = (headers: Record<string, string>) =>
+      new Promise<{ status?: number; body: string }>((resolve, reject) => {
+        const req = request(
+          `${baseUrl}/mcp`,
+          {
+            method: 'POST',
+            headers: {
+              'Content-Type': 'application/json',
+              Accept: 'application/json, text/event-stream',
+              ...headers,
+            },
+          },
+          (res) => {
+            let body = '';
+            res.on('data', (chunk) => (body += chunk));
+            res.on('end', () => resolve({ status: res.statusCode, body }));
+          }
+        );
+        req.on('error', reject);
+        req.end(JSON.stringify({ jsonrpc: '2.0', id: 1, method: 'tools/list' }));
+      });
+
+    it('should reject requests from a foreign Origin', async () => {
+      const response = await initialize({ Origin: 'https://evil.example' });
+
+      expect(response.status).toBe(403);
+      expect(JSON.parse(response.body).error.message).toBe(
+        'Invalid Origin header: https://evil.example'
+      );
+    });
+
+    it('should reject requests for another Host', async () => {
+      const response = await initialize({ Host: `evil.example:${new URL(baseUrl).port}` });
+
+      expect(response.status).toBe(403);
+    });
+
+    it('should accept same-origin requests', async () => {
+      const response = await initialize({ Origin: baseUrl });
+
+      // Past the check, the request fails only for lacking a session
+      expect(response.status).toBe(400);
+    });
+  });
+
+  describe('session cleanup', () => {
+    const listen = async (serverFactory: () => Server) => {
+      const cleanupHost = new HttpTransportHost(serverFactory, {
+        host: '127.0.0.1',
+        port: 0,
+        sessionIdleTimeoutMs: 50,
+      });
+      await cleanupHost.listen();
+      return { cleanupHost, url: `http://127.0.0.1:${cleanupHost.getAddress()?.port}` };
+    };
+
+    it('should close sessions whose client went away without ending them', async () => {
+      const { cleanupHost, url } = await listen(createServer);
+      try {
+        const client = new Client({ name: 'vanishing-client', version: '1.0.0' });
+        await client.connect(new StreamableHTTPClientTransport(new URL(`${url}/mcp`)));
+        await client.listTools();
+        expect(cleanupHost.getSessionCount()).toBe(1);
+
+        // Closing the client drops its connections but sends no DELETE
+        await client.close();
+        await new Promise((resolve) => setTimeout(resolve, 200));
+
+        expect(cleanupHost.getSessionCount()).toBe(0);
+      } finally {
+        await cleanupHost.close();
+      }
+    });
+
+    it('should forget a session whose server fails to connect', async () => {
+      const { cleanupHost, url } = await listen(() => {
+        const server = createServer();
+        server.connect = async () => {
+          throw new Error('connect failed');
+        };
+        return server;
+      });
+      try {
+        const response = await fetch(`${url}/sse`);
+
+        expect(response.status).toBe(500);
+        expect(cleanupHost.getSessionCount()).toBe(0);
+      } finally {
+        await cleanupHost.close();
+      }
+    });
+  });
+});
@@ -0,0 +1,65 @@
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import { spawnSync } from 'child_process';
+import { mkdtempSync, mkdirSync, writeFileSync, rmSync } from 'fs';
+import { tmpdir } from 'os';
+import { fileURLToPath } from 'url';
+import { dirname, join } from 'path';
+
+const __filename = fileURLToPath(import.meta.url);
+const __dirname = dirname(__filename);
+
+describe('lint command', () => {
+  let tempDir: string;
+
+  const writeSkill = (id: string, content: string) => {
+    mkdirSync(join(tempDir, 'skills', id), { recursive: true });
+    writeFileSync(join(tempDir, 'skills', id, 'SKILL.md'), content);
+  };
+
+  const runLint = (...args: string[]) => runLintOn(tempDir, ...args);
+
+  const runLintOn = (directory: string, ...args: string[]) =>
+    spawnSync('node', [join(__dirname, '../../dist/index.js'), 'lint', directory, ...args], {
+      cwd: tempDir,
+      encoding: 'utf-8',
+      timeout: 30000,
+    });
+
+  beforeEach(() => {
+    tempDir = mkdtempSync(join(tmpdir(), 'skills-lint-'));
+  });
+
+  afterEach(() => {
+    rmSync(tempDir, { recursive: true, force: true });
+  });
+
+  it('should exit with status 0 when there are only warnings', () => {
+    writeSkill('pdf', '---\nname: PDF\ndescription: Work with PDFs\n---\n');
+
+    const result = runLint();
+
+    expect(result.status).toBe(0);
+    expect(result.stdout).toContain('skills/pdf/SKILL.md:2: warning');
+    expect(result.stdout).toContain('0 errors and 2 warnings in 1 skill');
+  });
+
+  it('should exit with status 1 and print JSON when there are errors', () => {
+    writeSkill('pdf', `---\nname: pdf\ndescription: ${'a'.repeat(501)}\n---\n`);
+
+    const result = runLint('--json');
+
+    expect(result.status).toBe(1);
+    expect(JSON.parse(result.stdout)).toMatchObject({
+      errorCount: 1,
+      diagnostics: [{ file: 'skills/pdf/SKILL.md', line: 3, rule: 'skill-schema' }],
+    });
+  });
+
+  it('should exit with status 2 when the directory does not exist', () => {
+    const result = runLintOn(join(tempDir, 'missing'));
+
+    expect(result.status).toBe(2);
+    expect(result.stderr).toContain(`Cannot lint ${join(tempDir, 'missing')}: no such directory`);
+    expect(result.stdout).toBe('');
+  });
+});
@@ -0,0 +1,138 @@
+import { describe, it, expect, beforeAll, afterAll } from 'vitest';
+import { execFileSync } from 'child_process';
+import { mkdtempSync, mkdirSync, writeFileSync, rmSync } from 'fs';
+import { tmpdir } from 'os';
+import { fileURLToPath } from 'url';
+import { dirname, join } from 'path';
+import { Client } from '@modelcontextprotocol/sdk/client/index.js';
+import { StdioClientTransport } from '@modelcontextprotocol/sdk/client/stdio.js';
+import {
+  PromptListChangedNotificationSchema,
+  ResourceListChangedNotificationSchema,
+  ToolListChangedNotificationSchema,
+} from '@modelcontextprotocol/sdk/types.js';
+
+const __filename = fileURLToPath(import.meta.url);
+const __dirname = dirname(__filename);
+
+function git(cwd: string, ...args: string[]): void {
+  execFileSync('git', ['-c', 'user.name=Test', '-c', 'user.email=test@example.com', ...args], {
+    cwd,
+    stdio: 'ignore',
+  });
+}
+
+function addSkill(repoDir: string, id: string, description: string): void {
+  const skillDir = join(repoDir, 'skills', id);
+  mkdirSync(skillDir, { recursive: true });
+  writeFileSync(
+    join(skillDir, 'SKILL.md'),
+    `---\nname: ${id}\ndescription: ${description}\n---\n\n# ${id}\n\n${description}\n`
+  );
+  git(repoDir, 'add', '-A');
+  git(repoDir, 'commit', '-m', `Add ${id}`);
+}
+
+async function waitFor(condition: () => boolean, timeoutMs = 5000): Promise<void> {
+  const start = Date.now();
+  while (!condition()) {
+    if (Date.now() - start > timeoutMs) {
+      throw new Error('Timed out waiting for condition');
+    }
+    await new Promise((resolve) => setTimeout(resolve, 50));
+  }
+}
+
+describe('List changed notifications', () => {
+  let tempDir: string;
+  let originDir: string;
+  let client: Client;
+
+  beforeAll(async () => {
+    tempDir = mkdtempSync(join(tmpdir(), 'skills-notify-'));
+    originDir = join(tempDir, 'origin');
+    mkdirSync(originDir);
+    git(originDir, 'init', '-b', 'main');
+    addSkill(originDir, 'alpha', 'First skill');
+
+    const transport = new StdioClientTransport({
+      command: 'node',
+      args: [join(__dirname, '../../dist/index.js')],
+      env: {
+        ...(process.env as Record<string, string>),
+        LOG_LEVEL: 'error',
+        SKILLS_SYNC_INTERVAL: '0',
+        SKILLS_REPO_URL: `file://${originDir}`,
+        SKILLS_CACHE_DIR: join(tempDir, 'cache'),
+      },
+      stderr: 'pipe',
+    });
+
+    client = new Client({ name: 'test-client', version: '1.0.0' });
+    await client.connect(transport);
+  }, 20000);
+
+  afterAll(async () => {
+    await client?.close();
+    rmSync(tempDir, { recursive: true, force: true });
+  });
+
+  it('should notify clients after refresh_skills picks up new skills', async () => {
+    const received: string[] = [];
+    client.setNotificationHandler(ToolListChangedNotificationSchema, async (n) => {
+      received.push(n.method);
+    });
+    client.setNotificationHandler(PromptListChangedNotificationSchema, async (n) => {
+      received.push(n.method);
+    });
+    client.setNotificationHandler(ResourceListChangedNotificationSchema, async (n) => {
+      received.push(n.method);
+    });
+
+    const { resources: before } = await client.listResources();
+    // Skill ids are namespaced by the origin's last two path segments
+    expect(before.map((r) => r.name)).toEqual([expect.stringMatching(/\/origin\/alpha$/)]);
+
+    addSkill(originDir, 'beta', 'Second skill');
+    await client.callTool({ name: 'refresh_skills', arguments: {} });
+
+    await waitFor(() => received.length >= 3);
+    expect(received).toEqual(
+      expect.arrayContaining([
+        'notifications/tools/list_changed',
+        'notifications/prompts/list_changed',
+        'notifications/resources/list_changed',
+      ])
+    );
+
+    const { resources: after } = await client.listResources();
+    expect(after.map((r) => r.name.split('/').pop()).sort()).toEqual(['alpha', 'beta']);
+  }, 20000);
+
+  it('should not notify when nothing changed', async () => {
+    const received: string[] = [];
+    client.setNotificationHandler(ToolListChangedNotificationSchema, async (n) => {
+      received.push(n.method);
+    });
+
+    await client.callTool({ name: 'refresh_skills', arguments: {} });
+    await new Promise((resolve) => setTimeout(resolve, 500));
+
+    expect(received).toEqual([]);
+  }, 20000);
+
+  it('should report progress for refresh_skills when a progress token is sent', async () => {
+    addSkill(originDir, 'gamma', 'Third skill');
+    const messages: string[] = [];
+
+    const result = await client.callTool({ name: 'refresh_skills', arguments: {} }, undefined, {
+      onprogress: (progress) => messages.push(progress.message ?? ''),
+    });
+
+    expect(result.isError).toBeFalsy();
+    expect(messages[0]).toBe('Syncing skills repository');
+    // Only early updates are asserted: the SDK client drops progress that
+    // arrives in the same stdout chunk as the response
+    expect(messages).toContain('Parsed 1 of 3 repository skills');
+  }, 20000);
+});
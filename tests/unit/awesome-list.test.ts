@@ -0,0 +1,79 @@
+import { describe, it, expect } from 'vitest';
+import { parseSkillLinks } from '../../src/services/awesome-list.js';
+
+describe('parseSkillLinks', () => {
+  const readme = [
+    '# Awesome Agent Skills',
+    '',
+    'A curated list. See [the guide](https://github.com/acme/guide/tree/main/docs) first.',
+    '',
+    '## 📄 Documents',
+    '',
+    '- **[anthropics/pdf](https://github.com/anthropics/skills/tree/main/skills/pdf)** - Work with PDFs',
+    '- [docx](https://github.com/anthropics/skills/blob/v2/skills/docx/SKILL.md): Edit Word files',
+    '- [Website](https://example.com) - Not a skill',
+    '',
+    '### Spreadsheets',
+    '',
+    '| Skill | Description |',
+    '| --- | --- |',
+    '| [xlsx](https://github.com/acme/sheets/tree/main/xlsx) | Build **spreadsheets** |',
+    '',
+    '## Development',
+    '',
+    '```markdown',
+    '# Not a heading',
+    '```',
+    '',
+    '1. [frontend-design](https://github.com/globex/skills/tree/main/frontend-design) – Design UIs',
+    '- **[anthropics/pdf](https://github.com/anthropics/skills/tree/main/skills/pdf)** - Again',
+  ].join('\n');
+
+  it('should read list items, table rows and blob links with their categories', () => {
+    const links = parseSkillLinks(readme);
+
+    expect(links).toEqual([
+      {
+        name: 'anthropics/pdf',
+        org: 'anthropics',
+        repo: 'skills',
+        ref: 'main',
+        path: 'skills/pdf',
+        description: 'Work with PDFs',
+        url: 'https://github.com/anthropics/skills/tree/main/skills/pdf',
+        categoryPath: ['Documents'],
+      },
+      {
+        name: 'docx',
+        org: 'anthropics',
+        repo: 'skills',
+        ref: 'v2',
+        path: 'skills/docx',
+        file: 'SKILL.md',
+        description: 'Edit Word files',
+        url: 'https://github.com/anthropics/skills/blob/v2/skills/docx/SKILL.md',
+        categoryPath: ['Documents'],
+      },
+      expect.objectContaining({
+        name: 'xlsx',
+        path: 'xlsx',
+        description: 'Build spreadsheets',
+        categoryPath: ['Documents', 'Spreadsheets'],
+      }),
+      expect.objectContaining({
+        name: 'frontend-design',
+        org: 'globex',
+        description: 'Design UIs',
+        categoryPath: ['Development'],
+      }),
+    ]);
+  });
+
+  it('should not treat the document title as a category', () => {
+    const links = parseSkillLinks(
+      '# Skills\n\n- [pdf](https://github.com/acme/skills/tree/main/pdf) - PDFs'
+    );
+
+    expect(links[0].categoryPath).toEqual([]);
+  });
+});
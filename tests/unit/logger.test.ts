@@ -0,0 +1,65 @@
+import { describe, it, expect, afterEach, vi } from 'vitest';
+import { createLogger, getLogger, LogLevel } from '../../src/utils/logger.js';
+
+describe('Logger', () => {
+  const originalLevel = getLogger().getLevel();
+
+  afterEach(() => {
+    getLogger().setLevel(originalLevel);
+    vi.restoreAllMocks();
+  });
+
+  it('should update the shared instance when created again', () => {
+    const before = getLogger();
+    const after = createLogger('debug');
+
+    expect(after).toBe(before);
+    expect(before.getLevel()).toBe('debug');
+  });
+
+  it('should write every level to stderr', () => {
+    const stderr = vi.spyOn(console, 'error').mockImplementation(() => {});
+    const logger = getLogger();
+    logger.setLevel('debug');
+
+    logger.debug('debug message');
+    logger.info('info message');
+
+    expect(stderr).toHaveBeenCalledTimes(2);
+    expect(stderr.mock.calls[0][0]).toContain('[DEBUG] debug message');
+  });
+
+  it('should pass every record to sinks, whatever the level', () => {
+    const stderr = vi.spyOn(console, 'error').mockImplementation(() => {});
+    const logger = getLogger();
+    const records: Array<[LogLevel, string, unknown[]]> = [];
+    const remove = logger.addSink((level, message, args) => records.push([level, message, args]));
+
+    logger.setLevel('warn');
+    logger.info('below the level');
+    logger.warn('kept', { detail: 1 });
+    remove();
+    logger.error('after removal');
+
+    expect(records).toEqual([
+      ['info', 'below the level', []],
+      ['warn', 'kept', [{ detail: 1 }]],
+    ]);
+    expect(stderr).toHaveBeenCalledTimes(2);
+  });
+
+  it('should not re-dispatch records logged from within a sink', () => {
+    vi.spyOn(console, 'error').mockImplementation(() => {});
+    const logger = getLogger();
+    let calls = 0;
+    const remove = logger.addSink(() => {
+      calls++;
+      logger.error('logged by sink');
+    });
+
+    logger.error('original');
+    remove();
+
+    expect(calls).toBe(1);
+  });
+});
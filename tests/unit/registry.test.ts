@@ -1,7 +1,7 @@
 import { describe, it, expect, beforeEach } from 'vitest';
-import { SkillRegistry } from '../../src/models/registry.js';
+import { SkillChange, SkillRegistry } from '../../src/models/registry.js';
 import { Skill } from '../../src/models/skill.js';
-import { RepositorySource } from '../../src/models/repository.js';
+import { RepositorySource, getRepositoryNamespace } from '../../src/models/repository.js';
 
 describe('SkillRegistry', () => {
   let registry: SkillRegistry;
@@ -133,6 +133,68 @@ describe('SkillRegistry', () => {
       expect(result.errors?.[0]).toContain('Invalid parameter');
     });
 
+    it('should enforce declared constraints, including nested ones', () => {
+      const skill: Skill = {
+        id: 'test-skill',
+        name: 'Test Skill',
+        description: 'A test skill',
+        source: 'repository',
+        sourcePath: '/path/to/skill',
+        content: 'Test content',
+        parameters: [
+          {
+            name: 'pages',
+            type: 'integer',
+            description: 'Pages to render',
+            required: false,
+            minimum: 1,
+            maximum: 50,
+          },
+          {
+            name: 'format',
+            type: 'string',
+            description: 'Output format',
+            required: false,
+            pattern: '^[a-z]+$',
+          },
+          {
+            name: 'options',
+            type: 'object',
+            description: 'Rendering options',
+            required: false,
+            properties: {
+              margins: { type: 'array', items: { type: 'number', minimum: 0 }, maxItems: 4 },
+              title: { type: 'string', minLength: 1 },
+            },
+            requiredProperties: ['title'],
+          },
+        ],
+        metadata: {},
+        lastUpdated: new Date(),
+      };
+
+      registry.registerSkill(skill);
+
+      expect(
+        registry.validateParameters('test-skill', {
+          pages: 10,
+          format: 'pdf',
+          options: { title: 'Report', margins: [1, 2] },
+        })
+      ).toEqual({ valid: true });
+
+      const result = registry.validateParameters('test-skill', {
+        pages: 2.5,
+        format: 'PDF',
+        options: { margins: [-1] },
+      });
+      expect(result.errors).toEqual([
+        "Invalid parameter 'pages': Must be an integer",
+        "Invalid parameter 'format': Must match ^[a-z]+$",
+        "Invalid parameter 'options': margins.0: Must be at least 0",
+      ]);
+    });
+
     it('should reject unknown parameters', () => {
       const skill: Skill = {
         id: 'test-skill',
@@ -189,4 +251,148 @@ describe('SkillRegistry', () => {
       expect(skills.map((s) => s.id)).toContain('skill-2');
     });
   });
+
+  describe('replaceSkills', () => {
+    it('should replace all existing skills', () => {
+      const createSkill = (id: string): Skill => ({
+        id,
+        name: id,
+        description: `Skill ${id}`,
+        source: 'repository',
+        sourcePath: `/path/to/${id}`,
+        content: 'Content',
+        parameters: [],
+        metadata: {},
+        lastUpdated: new Date(),
+      });
+
+      registry.registerSkill(createSkill('old-skill'));
+      registry.replaceSkills([createSkill('new-a'), createSkill('new-b')]);
+
+      expect(registry.hasSkill('old-skill')).toBe(false);
+      expect(registry.listSkills().map((s) => s.id)).toEqual(['new-a', 'new-b']);
+    });
+  });
+
+  describe('onChange', () => {
+    const createSkill = (id: string): Skill => ({
+      id,
+      name: id,
+      description: `Skill ${id}`,
+      source: 'repository',
+      sourcePath: `/path/to/${id}`,
+      content: 'Content',
+      parameters: [],
+      metadata: {},
+      lastUpdated: new Date(),
+    });
+
+    it('should report a single diff when skills are replaced', () => {
+      const kept = createSkill('kept');
+      registry.registerSkill(kept);
+      registry.registerSkill(createSkill('removed'));
+
+      const changes: SkillChange[] = [];
+      registry.onChange((change) => changes.push(change));
+      registry.replaceSkills([kept, createSkill('added')]);
+
+      expect(changes).toHaveLength(1);
+      expect(changes[0].upserted.map((s) => s.id)).toEqual(['added']);
+      expect(changes[0].removed).toEqual(['removed']);
+    });
+
+    it('should stop notifying after the listener is removed', () => {
+      const changes: SkillChange[] = [];
+      const remove = registry.onChange((change) => changes.push(change));
+
+      registry.registerSkill(createSkill('a'));
+      remove();
+      registry.clear();
+
+      expect(changes).toEqual([{ upserted: [expect.objectContaining({ id: 'a' })], removed: [] }]);
+    });
+  });
+
+  describe('qualified ids', () => {
+    const createSkill = (id: string, source: Skill['source'] = 'repository'): Skill => ({
+      id,
+      name: id,
+      description: `Skill ${id}`,
+      source,
+      sourcePath: `/path/to/${id}`,
+      content: 'Content',
+      parameters: [],
+      metadata: {},
+      lastUpdated: new Date(),
+    });
+
+    it('should keep skills of the same name from different repositories', () => {
+      registry.registerSkill(createSkill('acme/skills/frontend-design'));
+      registry.registerSkill(createSkill('globex/skills/frontend-design'));
+      registry.registerSkill(createSkill('acme/skills/pdf'));
+
+      expect(registry.getSkillCount()).toBe(3);
+      expect(registry.getSkill('pdf')?.id).toBe('acme/skills/pdf');
+      expect(registry.getSkill('frontend-design')).toBeUndefined();
+      expect(registry.findSkills('frontend-design').map((s) => s.id)).toEqual([
+        'acme/skills/frontend-design',
+        'globex/skills/frontend-design',
+      ]);
+      expect(registry.getSkill('globex/skills/frontend-design')?.id).toBe(
+        'globex/skills/frontend-design'
+      );
+      expect(registry.getCollisions()).toEqual([
+        {
+          alias: 'frontend-design',
+          skillIds: ['acme/skills/frontend-design', 'globex/skills/frontend-design'],
+        },
+      ]);
+    });
+
+    it('should resolve short ids to the skill of the highest-priority source', () => {
+      registry.addSource({
+        type: 'git',
+        url: 'https://github.com/acme/skills',
+        branch: 'main',
+        priority: 1,
+      });
+      registry.addSource({ type: 'local', path: '/local/skills', branch: 'main', priority: 2 });
+
+      registry.replaceSkills([createSkill('acme/skills/pdf'), createSkill('local/pdf', 'local')]);
+
+      expect(registry.getSkill('pdf')?.id).toBe('local/pdf');
+      expect(registry.getCollisions()).toEqual([
+        { alias: 'pdf', skillIds: ['acme/skills/pdf', 'local/pdf'] },
+      ]);
+    });
+
+    it('should report a full id claimed by skills from several locations', () => {
+      registry.replaceSkills([
+        { ...createSkill('acme/skills/design'), sourcePath: '/repo/a/design' },
+        { ...createSkill('acme/skills/design'), sourcePath: '/repo/b/design' },
+      ]);
+
+      expect(registry.getSkillCount()).toBe(1);
+      expect(registry.getCollisions()).toEqual([
+        {
+          alias: 'acme/skills/design',
+          skillIds: ['acme/skills/design'],
+          sourcePaths: ['/repo/a/design', '/repo/b/design'],
+        },
+      ]);
+
+      registry.replaceSkills([createSkill('acme/skills/design')]);
+      expect(registry.getCollisions()).toEqual([]);
+    });
+
+    it('should derive the namespace of a repository from its URL', () => {
+      expect(getRepositoryNamespace('https://github.com/anthropics/skills.git')).toBe(
+        'anthropics/skills'
+      );
+      expect(getRepositoryNamespace('git@github.com:anthropics/skills.git')).toBe(
+        'anthropics/skills'
+      );
+      expect(getRepositoryNamespace('skills')).toBeUndefined();
+    });
+  });
 });
@@ -0,0 +1,1164 @@
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import { mkdirSync, mkdtempSync, rmSync, writeFileSync } from 'fs';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import { Client } from '@modelcontextprotocol/sdk/client/index.js';
+import { InMemoryTransport } from '@modelcontextprotocol/sdk/inMemory.js';
+import {
+  LoggingMessageNotificationSchema,
+  ResourceUpdatedNotificationSchema,
+  ToolListChangedNotificationSchema,
+} from '@modelcontextprotocol/sdk/types.js';
+import { MCPServer } from '../../src/server.js';
+import { SkillRegistry } from '../../src/models/registry.js';
+import { SkillExecutor } from '../../src/services/skill-executor.js';
+import { Skill } from '../../src/models/skill.js';
+import { getLogger } from '../../src/utils/logger.js';
+import { SkillEmbeddingIndex } from '../../src/services/skill-embeddings.js';
+import { LocalEmbeddingProvider } from '../../src/embeddings/local-provider.js';
+import { CacheManager } from '../../src/cache/cache-manager.js';
+import { indexSkillFiles } from '../../src/services/skill-files.js';
+import { getSkillOutputSchema, toOutputJsonSchema } from '../../src/models/tool-output.js';
+
+describe('MCPServer', () => {
+  let registry: SkillRegistry;
+  let mcpServer: MCPServer;
+  let client: Client;
+
+  const createTestSkill = (id: string, overrides: Partial<Skill> = {}): Skill => ({
+    id,
+    name: `Test ${id}`,
+    description: `Test skill ${id}`,
+    source: 'repository',
+    sourcePath: `/path/to/${id}`,
+    content: `# ${id}\n\nInstructions for ${id}.`,
+    parameters: [],
+    metadata: { author: 'tester', tags: ['testing'], sourceOrg: 'acme' },
+    lastUpdated: new Date('2025-01-01T00:00:00Z'),
+    ...overrides,
+  });
+
+  const connectClient = async (): Promise<Client> => {
+    const [clientTransport, serverTransport] = InMemoryTransport.createLinkedPair();
+    await mcpServer.connect(serverTransport);
+    const newClient = new Client({ name: 'test-client', version: '1.0.0' });
+    await newClient.connect(clientTransport);
+    return newClient;
+  };
+
+  beforeEach(async () => {
+    registry = new SkillRegistry('/tmp/cache');
+    registry.registerSkill(createTestSkill('pdf-tools'));
+    registry.registerSkill(createTestSkill('frontend-design'));
+    mcpServer = new MCPServer(registry, new SkillExecutor(registry));
+    client = await connectClient();
+  });
+
+  afterEach(async () => {
+    await client.close();
+    await mcpServer.stop();
+  });
+
+  describe('resources', () => {
+    it('should advertise the resources capability', () => {
+      expect(client.getServerCapabilities()?.resources).toBeDefined();
+    });
+
+    it('should list every skill as a resource', async () => {
+      const { resources } = await client.listResources();
+
+      expect(resources).toHaveLength(2);
+      const pdf = resources.find((r) => r.uri === 'skill://pdf-tools');
+      expect(pdf).toMatchObject({
+        name: 'pdf-tools',
+        title: 'Test pdf-tools',
+        description: 'Test skill pdf-tools',
+        mimeType: 'text/markdown',
+      });
+      expect(pdf?._meta).toMatchObject({
+        author: 'tester',
+        sourceOrg: 'acme',
+        source: 'repository',
+      });
+    });
+
+    it('should expose a skill resource template', async () => {
+      const { resourceTemplates } = await client.listResourceTemplates();
+
+      expect(resourceTemplates.map((t) => t.uriTemplate)).toContain('skill://{skill_id}');
+    });
+
+    it('should read skill content as markdown', async () => {
+      const { contents } = await client.readResource({ uri: 'skill://pdf-tools' });
+
+      expect(contents).toHaveLength(1);
+      expect(contents[0]).toMatchObject({
+        uri: 'skill://pdf-tools',
+        mimeType: 'text/markdown',
+        text: '# pdf-tools\n\nInstructions for pdf-tools.',
+      });
+    });
+
+    it('should reject unknown resources', async () => {
+      await expect(client.readResource({ uri: 'skill://missing' })).rejects.toThrow(
+        /Resource not found/
+      );
+    });
+  });
+
+  describe('prompts', () => {
+    beforeEach(() => {
+      registry.registerSkill(
+        createTestSkill('greeting', {
+          content: 'Hello, {{name}}! Repeat {{times}} times. Loud: {{loud}}',
+          parameters: [
+            { name: 'name', type: 'string', description: 'Who to greet', required: true },
+            { name: 'times', type: 'number', description: 'Repetitions', required: false },
+            { name: 'loud', type: 'boolean', description: 'Shout it', required: false },
+          ],
+        })
+      );
+    });
+
+    it('should advertise the prompts capability', () => {
+      expect(client.getServerCapabilities()?.prompts).toBeDefined();
+    });
+
+    it('should list skills as prompts with arguments from their parameters', async () => {
+      const { prompts } = await client.listPrompts();
+
+      expect(prompts.map((p) => p.name)).toEqual(
+        expect.arrayContaining(['pdf-tools', 'frontend-design', 'greeting'])
+      );
+      const greeting = prompts.find((p) => p.name === 'greeting');
+      expect(greeting?.description).toBe('Test skill greeting');
+      expect(greeting?.arguments).toEqual([
+        { name: 'name', description: 'Who to greet', required: true },
+        { name: 'times', description: 'Repetitions', required: false },
+        { name: 'loud', description: 'Shout it', required: false },
+      ]);
+    });
+
+    it('should render the invoked skill with typed arguments substituted', async () => {
+      const result = await client.getPrompt({
+        name: 'greeting',
+        arguments: { name: 'World', times: '3', loud: 'true' },
+      });
+
+      expect(result.messages).toHaveLength(1);
+      expect(result.messages[0].role).toBe('user');
+      expect(result.messages[0].content).toEqual({
+        type: 'text',
+        text: 'Hello, World! Repeat 3 times. Loud: true',
+      });
+    });
+
+    it('should reject prompts with missing required arguments', async () => {
+      await expect(client.getPrompt({ name: 'greeting', arguments: {} })).rejects.toThrow(
+        /Missing required parameter: name/
+      );
+    });
+
+    it('should reject unknown prompts', async () => {
+      await expect(client.getPrompt({ name: 'missing' })).rejects.toThrow(/Prompt not found/);
+    });
+  });
+
+  describe('skill tools', () => {
+    const useSkillTools = async (allowlist?: string[], maxTools?: number) => {
+      await client.close();
+      await mcpServer.stop();
+      mcpServer = new MCPServer(registry, new SkillExecutor(registry), undefined, {
+        skillTools: { enabled: true, allowlist, maxTools },
+      });
+      client = await connectClient();
+    };
+
+    beforeEach(() => {
+      registry.registerSkill(
+        createTestSkill('stripe-best-practices', {
+          content: 'Use {{mode}} mode',
+          parameters: [
+            {
+              name: 'mode',
+              type: 'string',
+              description: 'Integration mode',
+              required: true,
+              enum: ['test', 'live'],
+            },
+            {
+              name: 'retries',
+              type: 'number',
+              description: 'Retry count',
+              required: false,
+              default: 3,
+            },
+          ],
+        })
+      );
+    });
+
+    it('should not expose skill tools by default', async () => {
+      const { tools } = await client.listTools();
+
+      expect(tools.some((t) => t.name.startsWith('skill_'))).toBe(false);
+    });
+
+    it('should expose one tool per skill with a generated input schema', async () => {
+      await useSkillTools();
+      const { tools } = await client.listTools();
+
+      expect(tools.map((t) => t.name)).toEqual(
+        expect.arrayContaining([
+          'list_skills',
+          'skill_pdf_tools',
+          'skill_frontend_design',
+          'skill_stripe_best_practices',
+        ])
+      );
+      const stripe = tools.find((t) => t.name === 'skill_stripe_best_practices');
+      expect(stripe?.description).toBe('Test skill stripe-best-practices');
+      expect(stripe?.annotations).toEqual(
+        tools.find((t) => t.name === 'invoke_skill')?.annotations
+      );
+      expect(stripe?.inputSchema).toEqual({
+        type: 'object',
+        properties: {
+          mode: { type: 'string', description: 'Integration mode', enum: ['test', 'live'] },
+          retries: { type: 'number', description: 'Retry count', default: 3 },
+        },
+        required: ['mode'],
+        additionalProperties: false,
+      });
+    });
+
+    it('should respect the allowlist and max count', async () => {
+      await useSkillTools(['stripe-best-practices', 'missing-skill']);
+      let { tools } = await client.listTools();
+      expect(tools.filter((t) => t.name.startsWith('skill_')).map((t) => t.name)).toEqual([
+        'skill_stripe_best_practices',
+      ]);
+
+      await useSkillTools(undefined, 2);
+      ({ tools } = await client.listTools());
+      expect(tools.filter((t) => t.name.startsWith('skill_'))).toHaveLength(2);
+    });
+
+    it('should number skill tools whose truncated names collide', async () => {
+      const prefix = `acme/skills/${'long-skill-name-'.repeat(4)}`;
+      registry.registerSkill(createTestSkill(`${prefix}one`));
+      registry.registerSkill(createTestSkill(`${prefix}two`));
+      await useSkillTools([`${prefix}one`, `${prefix}two`]);
+
+      const { tools } = await client.listTools();
+      const names = tools.filter((t) => t.name.startsWith('skill_')).map((t) => t.name);
+      const baseName = `skill_${prefix.replace(/[^a-zA-Z0-9_]+/g, '_')}`.slice(0, 64);
+      expect(names).toEqual([baseName, `${baseName.slice(0, 62)}_2`]);
+
+      const result = await client.callTool({ name: names[1], arguments: {} });
+      expect(result.structuredContent?.content).toContain(`${prefix}two`);
+    });
+
+    it('should route skill tool calls to invokeSkill', async () => {
+      await useSkillTools();
+      const result = await client.callTool({
+        name: 'skill_stripe_best_practices',
+        arguments: { mode: 'test' },
+      });
+
+      const content = result.content as Array<{ type: string; text: string }>;
+      const data = JSON.parse(content[0].text);
+      expect(result.isError).toBe(false);
+      expect(data.content).toBe('Use test mode');
+    });
+  });
+
+  describe('change notifications', () => {
+    const wait = (ms: number) => new Promise((resolve) => setTimeout(resolve, ms));
+
+    beforeEach(async () => {
+      await client.close();
+      await mcpServer.stop();
+      mcpServer = new MCPServer(registry, new SkillExecutor(registry), undefined, {
+        notificationDebounceMs: 20,
+      });
+      client = await connectClient();
+    });
+
+    it('should coalesce repeated changes into one tools/list_changed notification', async () => {
+      let count = 0;
+      client.setNotificationHandler(ToolListChangedNotificationSchema, async () => {
+        count++;
+      });
+
+      mcpServer.notifySkillsChanged();
+      mcpServer.notifySkillsChanged();
+      mcpServer.notifySkillsChanged();
+      await wait(100);
+
+      expect(count).toBe(1);
+    });
+
+    it('should send resources/updated only for subscribed resources that changed', async () => {
+      const updated: string[] = [];
+      client.setNotificationHandler(ResourceUpdatedNotificationSchema, async (notification) => {
+        updated.push(notification.params.uri);
+      });
+
+      await client.subscribeResource({ uri: 'skill://pdf-tools' });
+      await client.subscribeResource({ uri: 'skill://frontend-design' });
+      registry.registerSkill(createTestSkill('pdf-tools', { content: 'Updated content' }));
+
+      mcpServer.notifySkillsChanged();
+      await wait(100);
+      expect(updated).toEqual(['skill://pdf-tools']);
+
+      await client.unsubscribeResource({ uri: 'skill://pdf-tools' });
+      registry.registerSkill(createTestSkill('pdf-tools', { content: 'Updated again' }));
+      mcpServer.notifySkillsChanged();
+      await wait(100);
+      expect(updated).toEqual(['skill://pdf-tools']);
+    });
+  });
+
+  describe('completions', () => {
+    it('should complete skill ids for the skill resource template', async () => {
+      const result = await client.complete({
+        ref: { type: 'ref/resource', uri: 'skill://{skill_id}' },
+        argument: { name: 'skill_id', value: 'front' },
+      });
+
+      expect(result.completion.values).toEqual(['frontend-design']);
+    });
+
+    it('should complete enum values for prompt arguments', async () => {
+      registry.registerSkill(
+        createTestSkill('deploy', {
+          parameters: [
+            {
+              name: 'env',
+              type: 'string',
+              description: 'Target environment',
+              required: true,
+              enum: ['staging', 'production'],
+            },
+          ],
+        })
+      );
+
+      const result = await client.complete({
+        ref: { type: 'ref/prompt', name: 'deploy' },
+        argument: { name: 'env', value: 'prod' },
+      });
+
+      expect(result.completion.values).toEqual(['production']);
+    });
+
+    it('should return no values for unknown arguments', async () => {
+      const result = await client.complete({
+        ref: { type: 'ref/prompt', name: 'pdf-tools' },
+        argument: { name: 'anything', value: 'x' },
+      });
+
+      expect(result.completion.values).toEqual([]);
+    });
+  });
+
+  describe('structured tool output', () => {
+    beforeEach(async () => {
+      // Listing tools makes the client validate structuredContent against each outputSchema
+      await client.listTools();
+    });
+
+    it('should declare an object outputSchema for every built-in tool', async () => {
+      const { tools } = await client.listTools();
+
+      for (const name of ['list_skills', 'get_skill', 'invoke_skill', 'refresh_skills']) {
+        const tool = tools.find((t) => t.name === name);
+        expect(tool?.outputSchema?.type).toBe('object');
+        expect(tool?.outputSchema).not.toHaveProperty('$schema');
+      }
+    });
+
+    it('should publish recursive parameter schemas as references', async () => {
+      const warn = vi.spyOn(console, 'warn').mockImplementation(() => {});
+      try {
+        expect(toOutputJsonSchema(getSkillOutputSchema)).toBeDefined();
+        expect(warn).not.toHaveBeenCalled();
+      } finally {
+        warn.mockRestore();
+      }
+
+      const { tools } = await client.listTools();
+      const outputSchema = tools.find((t) => t.name === 'get_skill')?.outputSchema;
+      const parameters = outputSchema?.properties?.parameters as {
+        items: { properties: Record<string, unknown> };
+      };
+      expect(parameters.items.properties.items).toMatchObject({
+        type: 'object',
+        properties: {
+          type: { $ref: '#/properties/parameters/items/properties/type' },
+          items: { $ref: '#/properties/parameters/items/properties/items' },
+        },
+      });
+    });
+
+    it('should return structuredContent matching the text block for list_skills', async () => {
+      const result = await client.callTool({ name: 'list_skills', arguments: {} });
+
+      const content = result.content as Array<{ type: string; text: string }>;
+      expect(result.structuredContent).toMatchObject({ total: 2 });
+      expect(JSON.parse(content[0].text)).toEqual(result.structuredContent);
+    });
+
+    it('should return structuredContent for get_skill', async () => {
+      const result = await client.callTool({
+        name: 'get_skill',
+        arguments: { skill_id: 'pdf-tools' },
+      });
+
+      expect(result.structuredContent).toMatchObject({
+        id: 'pdf-tools',
+        content: '# pdf-tools\n\nInstructions for pdf-tools.',
+        metadata: { author: 'tester', sourceOrg: 'acme' },
+      });
+    });
+
+    it('should include specification fields and diagnostics in get_skill', async () => {
+      registry.registerSkill(
+        createTestSkill('spec-skill', {
+          metadata: {
+            license: 'MIT',
+            allowedTools: ['Read'],
+            compatibility: 'Requires git',
+            customMetadata: { owner: 'docs-team' },
+          },
+          diagnostics: [{ severity: 'warning', rule: 'name-format', message: 'Bad name', line: 2 }],
+        })
+      );
+
+      const result = await client.callTool({
+        name: 'get_skill',
+        arguments: { skill_id: 'spec-skill' },
+      });
+
+      expect(result.isError).toBeFalsy();
+      expect(result.structuredContent).toMatchObject({
+        metadata: {
+          license: 'MIT',
+          allowedTools: ['Read'],
+          customMetadata: { owner: 'docs-team' },
+        },
+        diagnostics: [{ rule: 'name-format', line: 2 }],
+      });
+    });
+
+    it('should return structuredContent for invoke_skill successes and failures', async () => {
+      const success = await client.callTool({
+        name: 'invoke_skill',
+        arguments: { skill_id: 'pdf-tools' },
+      });
+      expect(success.isError).toBe(false);
+      expect(success.structuredContent).toMatchObject({ success: true });
+
+      const failure = await client.callTool({
+        name: 'invoke_skill',
+        arguments: { skill_id: 'missing' },
+      });
+      expect(failure.isError).toBe(true);
+      expect(failure.structuredContent).toMatchObject({
+        success: false,
+        error: { code: 'SkillNotFound' },
+      });
+    });
+
+    it('should return structuredContent for refresh_skills', async () => {
+      const result = await client.callTool({ name: 'refresh_skills', arguments: {} });
+
+      expect(result.structuredContent).toMatchObject({ success: true });
+    });
+
+    it('should keep get_skill errors as text only', async () => {
+      const result = await client.callTool({
+        name: 'get_skill',
+        arguments: { skill_id: 'missing' },
+      });
+
+      expect(result.isError).toBe(true);
+      expect(result.structuredContent).toBeUndefined();
+    });
+  });
+
+  describe('refresh progress and cancellation', () => {
+    let refreshSignal: AbortSignal | undefined;
+
+    const useRefresh = async (onRefresh: ConstructorParameters<typeof MCPServer>[2]) => {
+      await client.close();
+      await mcpServer.stop();
+      mcpServer = new MCPServer(registry, new SkillExecutor(registry), onRefresh);
+      client = await connectClient();
+    };
+
+    it('should forward progress when the request has a progress token', async () => {
+      await useRefresh(async (options) => {
+        options?.onProgress?.({ progress: 1, message: 'Synced' });
+        options?.onProgress?.({ progress: 2, total: 2, message: 'Saved skills cache' });
+        return { success: true, message: 'done' };
+      });
+      const progress: Array<{ progress: number; total?: number; message?: string }> = [];
+
+      await client.callTool({ name: 'refresh_skills', arguments: {} }, undefined, {
+        onprogress: (p) => progress.push(p),
+      });
+
+      expect(progress).toEqual([
+        { progress: 1, message: 'Synced' },
+        { progress: 2, total: 2, message: 'Saved skills cache' },
+      ]);
+    });
+
+    it('should abort the refresh when the client cancels the request', async () => {
+      await useRefresh(
+        (options) =>
+          new Promise((_resolve, reject) => {
+            refreshSignal = options?.signal;
+            options?.signal?.addEventListener('abort', () => reject(options.signal?.reason));
+          })
+      );
+      const controller = new AbortController();
+
+      const call = client.callTool({ name: 'refresh_skills', arguments: {} }, undefined, {
+        signal: controller.signal,
+      });
+      await new Promise((resolve) => setTimeout(resolve, 20));
+      controller.abort('user cancelled');
+
+      await expect(call).rejects.toThrow();
+      await new Promise((resolve) => setTimeout(resolve, 20));
+      expect(refreshSignal?.aborted).toBe(true);
+    });
+  });
+
+  describe('logging', () => {
+    const logger = getLogger();
+    const originalLevel = logger.getLevel();
+
+    beforeEach(() => {
+      vi.spyOn(console, 'error').mockImplementation(() => {});
+    });
+
+    afterEach(() => {
+      logger.setLevel(originalLevel);
+      vi.restoreAllMocks();
+    });
+
+    it('should advertise the logging capability', () => {
+      expect(client.getServerCapabilities()?.logging).toBeDefined();
+    });
+
+    it('should forward log records as notifications/message', async () => {
+      const messages: Array<{ level: string; data: unknown }> = [];
+      client.setNotificationHandler(LoggingMessageNotificationSchema, async (notification) => {
+        messages.push(notification.params);
+      });
+
+      await client.setLoggingLevel('debug');
+      logger.warn('Something odd', new Error('boom'));
+      await new Promise((resolve) => setTimeout(resolve, 20));
+
+      expect(messages).toContainEqual(
+        expect.objectContaining({
+          level: 'warning',
+          data: {
+            message: 'Something odd',
+            details: [expect.objectContaining({ name: 'Error', message: 'boom' })],
+          },
+        })
+      );
+    });
+
+    it('should filter by the client level without changing the stderr level', async () => {
+      const levels: string[] = [];
+      client.setNotificationHandler(LoggingMessageNotificationSchema, async (notification) => {
+        levels.push(notification.params.level);
+      });
+
+      await client.setLoggingLevel('error');
+      expect(logger.getLevel()).toBe(originalLevel);
+      logger.info('hidden');
+      logger.error('shown');
+      await new Promise((resolve) => setTimeout(resolve, 20));
+
+      expect(levels).toEqual(['error']);
+    });
+
+    it('should send the records of a request only to the client that made it', async () => {
+      const other = await connectClient();
+      const received = { client: [] as unknown[], other: [] as unknown[] };
+      client.setNotificationHandler(LoggingMessageNotificationSchema, async (notification) => {
+        received.client.push(notification.params.data);
+      });
+      other.setNotificationHandler(LoggingMessageNotificationSchema, async (notification) => {
+        received.other.push(notification.params.data);
+      });
+
+      try {
+        await client.setLoggingLevel('debug');
+        await other.setLoggingLevel('debug');
+        received.client = [];
+        await other.callTool({ name: 'list_skills', arguments: { filter: 'secret' } });
+        logger.warn('Sync failed');
+        await new Promise((resolve) => setTimeout(resolve, 20));
+
+        expect(received.other).toContainEqual({
+          message: 'Handling tool call: list_skills',
+          details: [{ filter: 'secret' }],
+        });
+        expect(received.client).toEqual(['Sync failed']);
+      } finally {
+        await other.close();
+      }
+    });
+  });
+
+  describe('pagination', () => {
+    const usePageSize = async (listPageSize: number) => {
+      await client.close();
+      await mcpServer.stop();
+      mcpServer = new MCPServer(registry, new SkillExecutor(registry), undefined, {
+        listPageSize,
+      });
+      client = await connectClient();
+    };
+
+    beforeEach(() => {
+      for (const id of ['alpha', 'beta', 'gamma']) {
+        registry.registerSkill(createTestSkill(id));
+      }
+    });
+
+    it('should page list_skills results with nextCursor', async () => {
+      const first = await client.callTool({ name: 'list_skills', arguments: { limit: 3 } });
+      const firstPage = first.structuredContent as {
+        skills: Array<{ id: string }>;
+        total: number;
+        nextCursor?: string;
+      };
+
+      expect(firstPage.skills.map((s) => s.id)).toEqual(['alpha', 'beta', 'frontend-design']);
+      expect(firstPage.total).toBe(5);
+
+      const second = await client.callTool({
+        name: 'list_skills',
+        arguments: { limit: 3, cursor: firstPage.nextCursor },
+      });
+      const secondPage = second.structuredContent as {
+        skills: Array<{ id: string }>;
+        nextCursor?: string;
+      };
+
+      expect(secondPage.skills.map((s) => s.id)).toEqual(['gamma', 'pdf-tools']);
+      expect(secondPage.nextCursor).toBeUndefined();
+    });
+
+    it('should filter list_skills by facet and report facet counts', async () => {
+      registry.registerSkill(createTestSkill('audit', { metadata: { sourceOrg: 'trailofbits' } }));
+
+      const result = await client.callTool({
+        name: 'list_skills',
+        arguments: { org: 'trailofbits' },
+      });
+
+      expect(result.structuredContent).toMatchObject({
+        total: 1,
+        skills: [{ id: 'audit' }],
+        facets: { orgs: [{ value: 'trailofbits', count: 1 }] },
+      });
+    });
+
+    it('should return an InvalidParams error for a bad list_skills cursor', async () => {
+      const result = await client.callTool({ name: 'list_skills', arguments: { cursor: 'bogus' } });
+
+      const content = result.content as Array<{ type: string; text: string }>;
+      expect(result.isError).toBe(true);
+      expect(JSON.parse(content[0].text).error.code).toBe('InvalidParams');
+    });
+
+    it('should page resources/list and prompts/list in id order', async () => {
+      await usePageSize(2);
+
+      const ids: string[] = [];
+      let cursor: string | undefined;
+      do {
+        const page = await client.listResources({ cursor });
+        ids.push(...page.resources.map((r) => r.name));
+        cursor = page.nextCursor;
+      } while (cursor);
+
+      expect(ids).toEqual(['alpha', 'beta', 'frontend-design', 'gamma', 'pdf-tools']);
+
+      const prompts = await client.listPrompts();
+      expect(prompts.prompts.map((p) => p.name)).toEqual(['alpha', 'beta']);
+      expect(prompts.nextCursor).toBeDefined();
+    });
+
+    it('should page tools/list', async () => {
+      await usePageSize(3);
+
+      const names: string[] = [];
+      let cursor: string | undefined;
+      let pages = 0;
+      do {
+        const page = await client.listTools({ cursor });
+        expect(page.tools.length).toBeLessThanOrEqual(3);
+        names.push(...page.tools.map((t) => t.name));
+        cursor = page.nextCursor;
+        pages++;
+      } while (cursor);
+
+      expect(pages).toBeGreaterThan(1);
+      expect(new Set(names).size).toBe(names.length);
+      expect(names).toEqual(expect.arrayContaining(['list_skills', 'refresh_skills']));
+    });
+
+    it('should reject an invalid cursor on MCP list requests', async () => {
+      await expect(client.listResources({ cursor: 'bogus' })).rejects.toThrow(/Invalid cursor/);
+    });
+  });
+
+  describe('search_skills', () => {
+    beforeEach(() => {
+      registry.registerSkill(
+        createTestSkill('document-tools', {
+          content: 'Extract text from PDFs and fill PDF forms.',
+        })
+      );
+    });
+
+    it('should return ranked results with snippets', async () => {
+      const result = await client.callTool({
+        name: 'search_skills',
+        arguments: { query: 'pdf' },
+      });
+
+      expect(result.isError).toBeFalsy();
+      expect(result.structuredContent).toMatchObject({
+        query: 'pdf',
+        total: 2,
+        results: [
+          { id: 'pdf-tools', matchedFields: ['name', 'description', 'content'] },
+          {
+            id: 'document-tools',
+            matchedFields: ['content'],
+            snippet: 'Extract text from PDFs and fill PDF forms.',
+          },
+        ],
+      });
+    });
+
+    it('should index skills registered after startup', async () => {
+      registry.registerSkill(createTestSkill('kubernetes'));
+
+      const result = await client.callTool({
+        name: 'search_skills',
+        arguments: { query: 'kubernetes', limit: 1 },
+      });
+
+      expect(result.structuredContent).toMatchObject({ total: 1, results: [{ id: 'kubernetes' }] });
+    });
+
+    it('should require a query', async () => {
+      const result = await client.callTool({ name: 'search_skills', arguments: {} });
+
+      expect(result.isError).toBe(true);
+    });
+  });
+
+  describe('skill suggestions', () => {
+    it('should include suggestions when get_skill misses', async () => {
+      const result = await client.callTool({
+        name: 'get_skill',
+        arguments: { skill_id: 'pdf-tool' },
+      });
+
+      const content = result.content as Array<{ type: string; text: string }>;
+      const body = JSON.parse(content[0].text);
+      expect(result.isError).toBe(true);
+      expect(body.error.code).toBe('SkillNotFound');
+      expect(body.error.details.suggestions[0]).toMatchObject({ id: 'pdf-tools' });
+    });
+
+    it('should return the resolved skill from get_skill when auto-resolve is enabled', async () => {
+      await client.close();
+      await mcpServer.stop();
+      mcpServer = new MCPServer(registry, new SkillExecutor(registry, { autoResolve: true }));
+      client = await connectClient();
+
+      const result = await client.callTool({
+        name: 'get_skill',
+        arguments: { skill_id: 'pdf-tool' },
+      });
+
+      expect(result.isError).toBeFalsy();
+      expect(result.structuredContent).toMatchObject({ id: 'pdf-tools' });
+    });
+  });
+
+  describe('recommend_skills', () => {
+    it('should recommend skills with scores and reasons', async () => {
+      const result = await client.callTool({
+        name: 'recommend_skills',
+        arguments: { task: 'design a landing page frontend', limit: 1 },
+      });
+
+      expect(result.isError).toBeFalsy();
+      expect(result.structuredContent).toMatchObject({
+        task: 'design a landing page frontend',
+        recommendations: [{ id: 'frontend-design', reason: expect.stringContaining('frontend') }],
+      });
+    });
+
+    it('should require a task', async () => {
+      const result = await client.callTool({ name: 'recommend_skills', arguments: {} });
+
+      expect(result.isError).toBe(true);
+    });
+  });
+
+  describe('semantic search', () => {
+    let cacheDir: string;
+    let embeddings: SkillEmbeddingIndex;
+
+    beforeEach(async () => {
+      cacheDir = mkdtempSync(join(tmpdir(), 'server-embeddings-'));
+      registry.registerSkill(
+        createTestSkill('xlsx', { description: 'Create and analyze Excel workbooks' })
+      );
+      embeddings = new SkillEmbeddingIndex(
+        registry,
+        new LocalEmbeddingProvider(),
+        new CacheManager(cacheDir)
+      );
+      await embeddings.start();
+
+      await client.close();
+      await mcpServer.stop();
+      mcpServer = new MCPServer(registry, new SkillExecutor(registry), undefined, { embeddings });
+      client = await connectClient();
+    });
+
+    afterEach(() => {
+      embeddings.dispose();
+      rmSync(cacheDir, { recursive: true, force: true });
+    });
+
+    it('should default to hybrid mode and find synonyms', async () => {
+      const result = await client.callTool({
+        name: 'search_skills',
+        arguments: { query: 'spreadsheet' },
+      });
+
+      expect(result.isError).toBeFalsy();
+      expect(result.structuredContent).toMatchObject({
+        mode: 'hybrid',
+        results: [{ id: 'xlsx', matchedFields: [] }],
+      });
+    });
+
+    it('should rank by similarity alone in semantic mode', async () => {
+      const result = await client.callTool({
+        name: 'search_skills',
+        arguments: { query: 'excel spreadsheet', mode: 'semantic' },
+      });
+
+      const { results } = result.structuredContent as {
+        results: Array<{ id: string; score: number; similarity: number }>;
+      };
+      expect(results[0].id).toBe('xlsx');
+      expect(results[0].score).toBe(results[0].similarity);
+    });
+
+    it('should reject semantic mode when embeddings are disabled', async () => {
+      await client.close();
+      await mcpServer.stop();
+      mcpServer = new MCPServer(registry, new SkillExecutor(registry));
+      client = await connectClient();
+
+      const result = await client.callTool({
+        name: 'search_skills',
+        arguments: { query: 'spreadsheet', mode: 'semantic' },
+      });
+
+      const content = result.content as Array<{ type: string; text: string }>;
+      expect(result.isError).toBe(true);
+      expect(JSON.parse(content[0].text).error.code).toBe('InvalidParams');
+    });
+  });
+
+  describe('skill files', () => {
+    let rootDir: string;
+
+    beforeEach(async () => {
+      rootDir = mkdtempSync(join(tmpdir(), 'server-files-'));
+      const skillDir = join(rootDir, 'forms');
+      mkdirSync(join(skillDir, 'references'), { recursive: true });
+      writeFileSync(join(skillDir, 'references', 'forms.md'), '# Forms');
+      writeFileSync(join(rootDir, 'outside.txt'), 'outside');
+      registry.registerSkill(
+        createTestSkill('forms', {
+          source: 'local',
+          sourcePath: skillDir,
+          files: await indexSkillFiles(skillDir),
+        })
+      );
+    });
+
+    afterEach(() => {
+      rmSync(rootDir, { recursive: true, force: true });
+    });
+
+    it('should list bundled files in get_skill', async () => {
+      const result = await client.callTool({ name: 'get_skill', arguments: { skill_id: 'forms' } });
+
+      expect(result.structuredContent).toMatchObject({
+        files: [{ path: 'references/forms.md', size: 7, mimeType: 'text/markdown' }],
+      });
+    });
+
+    it('should read a bundled file with get_skill_file', async () => {
+      const result = await client.callTool({
+        name: 'get_skill_file',
+        arguments: { skill_id: 'forms', path: 'references/forms.md' },
+      });
+
+      expect(result.isError).toBeFalsy();
+      expect(result.structuredContent).toMatchObject({
+        skillId: 'forms',
+        path: 'references/forms.md',
+        text: '# Forms',
+      });
+    });
+
+    it('should reject get_skill_file paths outside the skill', async () => {
+      const result = await client.callTool({
+        name: 'get_skill_file',
+        arguments: { skill_id: 'forms', path: '../outside.txt' },
+      });
+
+      const content = result.content as Array<{ type: string; text: string }>;
+      expect(result.isError).toBe(true);
+      expect(JSON.parse(content[0].text).error).toEqual({
+        code: 'InvalidParams',
+        message: 'Invalid file path: ../outside.txt',
+      });
+    });
+
+    it('should expose bundled files as skill:// resources', async () => {
+      const { resources } = await client.listResources();
+      expect(resources.map((resource) => resource.uri)).toContain(
+        'skill://forms/references/forms.md'
+      );
+
+      const { contents } = await client.readResource({ uri: 'skill://forms/references/forms.md' });
+      expect(contents[0]).toMatchObject({ mimeType: 'text/markdown', text: '# Forms' });
+
+      await expect(
+        client.readResource({ uri: 'skill://forms/references/%2E%2E/%2E%2E/outside.txt' })
+      ).rejects.toThrow('Invalid file path');
+    });
+  });
+
+  describe('lint_skills', () => {
+    let rootDir: string;
+
+    const lint = async (args: Record<string, unknown> = {}) => {
+      const result = await client.callTool({ name: 'lint_skills', arguments: args });
+      const content = result.content as Array<{ type: string; text: string }>;
+      return { result, body: JSON.parse(content[0].text) };
+    };
+
+    beforeEach(async () => {
+      rootDir = mkdtempSync(join(tmpdir(), 'server-lint-'));
+      mkdirSync(join(rootDir, 'skills', 'pdf'), { recursive: true });
+      writeFileSync(
+        join(rootDir, 'skills', 'pdf', 'SKILL.md'),
+        '---\nname: pdf\n---\n# PDF\n\nWork with PDFs'
+      );
+
+      await client.close();
+      await mcpServer.stop();
+      mcpServer = new MCPServer(registry, new SkillExecutor(registry), undefined, {
+        lint: { root: rootDir },
+      });
+      client = await connectClient();
+    });
+
+    afterEach(() => {
+      rmSync(rootDir, { recursive: true, force: true });
+    });
+
+    it('should report diagnostics for the local skills directory', async () => {
+      const { result } = await lint();
+
+      expect(result.isError).toBeFalsy();
+      expect(result.structuredContent).toMatchObject({
+        directory: rootDir,
+        skillCount: 1,
+        diagnostics: [
+          {
+            file: join('skills', 'pdf', 'SKILL.md'),
+            rule: 'description-missing',
+            severity: 'warning',
+          },
+        ],
+      });
+    });
+
+    it('should refuse paths outside the local skills directory', async () => {
+      const { result, body } = await lint({ path: '..' });
+
+      expect(result.isError).toBe(true);
+      expect(body.error).toEqual({
+        code: 'InvalidParams',
+        message: 'Path is outside the local skills directory: ..',
+      });
+    });
+
+    it('should refuse paths that are not directories', async () => {
+      const { result, body } = await lint({ path: 'missing' });
+
+      expect(result.isError).toBe(true);
+      expect(body.error).toEqual({
+        code: 'InvalidParams',
+        message: 'Cannot lint missing: no such directory',
+      });
+    });
+  });
+
+  describe('skill sections', () => {
+    beforeEach(() => {
+      registry.registerSkill(
+        createTestSkill('guide', {
+          content: '# Guide\n\n## Setup\n\nInstall it.\n\n## Examples\n\nRun it.',
+        })
+      );
+    });
+
+    it('should return only the table of contents when no sections are requested', async () => {
+      const result = await client.callTool({
+        name: 'get_skill',
+        arguments: { skill_id: 'guide', toc: true },
+      });
+
+      expect(result.isError).toBeFalsy();
+      expect(result.structuredContent?.content).toBeUndefined();
+      expect(result.structuredContent).toMatchObject({
+        toc: [
+          { title: 'Guide', level: 1, path: ['Guide'] },
+          { title: 'Setup', level: 2, path: ['Guide', 'Setup'], size: 23, tokens: 6 },
+          { title: 'Examples', level: 2, path: ['Guide', 'Examples'] },
+        ],
+      });
+    });
+
+    it('should return the requested sections from get_skill and invoke_skill', async () => {
+      const skill = await client.callTool({
+        name: 'get_skill',
+        arguments: { skill_id: 'guide', sections: ['Guide > Examples'] },
+      });
+      expect(skill.structuredContent).toMatchObject({ content: '## Examples\n\nRun it.' });
+      expect(skill.structuredContent?.toc).toBeUndefined();
+
+      const invoked = await client.callTool({
+        name: 'invoke_skill',
+        arguments: { skill_id: 'guide', sections: ['setup'] },
+      });
+      expect(invoked.structuredContent).toMatchObject({ content: '## Setup\n\nInstall it.' });
+    });
+
+    it('should apply detail levels and token budgets', async () => {
+      const summary = await client.callTool({
+        name: 'get_skill',
+        arguments: { skill_id: 'guide', detail: 'summary' },
+      });
+      expect(summary.structuredContent).toMatchObject({
+        content:
+          'Test skill guide\n\n' +
+          '[Summary only. Not shown in full: Guide; Setup; Examples. Request them with `sections`.]',
+        truncated: false,
+        omittedSections: ['Guide', 'Setup', 'Examples'],
+      });
+
+      const invoked = await client.callTool({
+        name: 'invoke_skill',
+        arguments: { skill_id: 'guide', max_tokens: 1000 },
+      });
+      expect(invoked.structuredContent).toMatchObject({
+        content: '# Guide\n\n## Setup\n\nInstall it.\n\n## Examples\n\nRun it.',
+        tokens: 13,
+        truncated: false,
+      });
+    });
+  });
+
+  describe('browse_categories', () => {
+    const browse = async (args: Record<string, unknown> = {}) => {
+      const result = await client.callTool({ name: 'browse_categories', arguments: args });
+      const content = result.content as Array<{ type: string; text: string }>;
+      return { result, body: JSON.parse(content[0].text) };
+    };
+
+    beforeEach(() => {
+      registry.registerSkill(
+        createTestSkill('xlsx', {
+          metadata: { categoryPath: ['Documents', 'Spreadsheets'] },
+        })
+      );
+    });
+
+    it('should return the category tree with counts', async () => {
+      const { result } = await browse();
+
+      expect(result.isError).toBeFalsy();
+      expect(result.structuredContent).toEqual({
+        categories: [
+          {
+            name: 'Documents',
+            path: 'Documents',
+            count: 1,
+            children: [
+              { name: 'Spreadsheets', path: 'Documents > Spreadsheets', count: 1, children: [] },
+            ],
+          },
+        ],
+        total: 1,
+        uncategorized: 2,
+      });
+    });
+
+    it('should declare subcategories as category nodes in its outputSchema', async () => {
+      // Listing tools makes the client validate the nested tree against the outputSchema
+      const { tools } = await client.listTools();
+      const outputSchema = tools.find((t) => t.name === 'browse_categories')?.outputSchema;
+      const categories = outputSchema?.properties?.categories as {
+        items: { properties: Record<string, unknown> };
+      };
+
+      expect(categories.items.properties.children).toEqual({
+        type: 'array',
+        items: { $ref: '#/properties/categories/items' },
+      });
+      expect((await browse()).result.isError).toBeFalsy();
+    });
+
+    it('should reject unknown categories', async () => {
+      const { result, body } = await browse({ category: 'Design' });
+
+      expect(result.isError).toBe(true);
+      expect(body.error).toEqual({
+        code: 'InvalidParams',
+        message: 'Category not found: Design. Top-level categories: Documents',
+      });
+    });
+  });
+});
@@ -0,0 +1,74 @@
+import { describe, it, expect } from 'vitest';
+import {
+  CategoryNotFoundError,
+  browseCategories,
+  buildCategoryTree,
+} from '../../src/services/skill-categories.js';
+import { Skill } from '../../src/models/skill.js';
+
+describe('skill categories', () => {
+  const createSkill = (id: string, categoryPath?: string[]): Skill => ({
+    id,
+    name: id,
+    description: `Skill ${id}`,
+    source: 'repository',
+    sourcePath: `/path/to/${id}`,
+    content: 'Content',
+    parameters: [],
+    metadata: { categoryPath },
+    lastUpdated: new Date(),
+  });
+
+  const skills = [
+    createSkill('xlsx', ['Documents', 'Spreadsheets']),
+    createSkill('pdf', ['Documents']),
+    createSkill('playwright', ['Development', 'Testing']),
+    createSkill('csv', ['Documents', 'Spreadsheets']),
+    createSkill('misc'),
+  ];
+
+  it('should count skills per category in the order categories first appear', () => {
+    expect(buildCategoryTree(skills)).toEqual([
+      {
+        name: 'Documents',
+        path: 'Documents',
+        count: 3,
+        children: [
+          { name: 'Spreadsheets', path: 'Documents > Spreadsheets', count: 2, children: [] },
+        ],
+      },
+      {
+        name: 'Development',
+        path: 'Development',
+        count: 1,
+        children: [{ name: 'Testing', path: 'Development > Testing', count: 1, children: [] }],
+      },
+    ]);
+  });
+
+  it('should report the whole tree with the number of uncategorized skills', () => {
+    expect(browseCategories(skills)).toMatchObject({ total: 4, uncategorized: 1 });
+  });
+
+  it('should open a category case-insensitively', () => {
+    const result = browseCategories(skills, 'documents>spreadsheets');
+
+    expect(result).toEqual({
+      category: 'Documents > Spreadsheets',
+      categories: [],
+      total: 2,
+      skills: [
+        { id: 'csv', name: 'csv', description: 'Skill csv' },
+        { id: 'xlsx', name: 'xlsx', description: 'Skill xlsx' },
+      ],
+    });
+    expect(browseCategories(skills, 'Documents').skills?.map((skill) => skill.id)).toEqual(['pdf']);
+  });
+
+  it('should list the top-level categories when a category does not exist', () => {
+    expect(() => browseCategories(skills, 'Design')).toThrow(CategoryNotFoundError);
+    expect(() => browseCategories(skills, 'Design')).toThrow(
+      'Category not found: Design. Top-level categories: Documents, Development'
+    );
+  });
+});
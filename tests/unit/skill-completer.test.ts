@@ -0,0 +1,102 @@
+import { describe, it, expect } from 'vitest';
+import { SkillCompleter, rankCompletions, scoreMatch } from '../../src/services/skill-completer.js';
+import { SkillRegistry } from '../../src/models/registry.js';
+import { Skill } from '../../src/models/skill.js';
+
+describe('SkillCompleter', () => {
+  const createTestSkill = (id: string, metadata: Skill['metadata'] = {}): Skill => ({
+    id,
+    name: `Test ${id}`,
+    description: `Test skill ${id}`,
+    source: 'repository',
+    sourcePath: `/path/to/${id}`,
+    content: 'Content',
+    parameters: [
+      {
+        name: 'framework',
+        type: 'string',
+        description: 'Target framework',
+        required: false,
+        enum: ['react', 'vue', 'svelte', 'react-native'],
+      },
+    ],
+    metadata,
+    lastUpdated: new Date(),
+  });
+
+  const createCompleter = () => {
+    const registry = new SkillRegistry('/tmp/cache');
+    registry.registerSkill(
+      createTestSkill('stripe-best-practices', { tags: ['payments'], sourceOrg: 'stripe' })
+    );
+    registry.registerSkill(
+      createTestSkill('frontend-design', { tags: ['design', 'frontend'], sourceOrg: 'anthropics' })
+    );
+    registry.registerSkill(
+      createTestSkill('react-best-practices', { tags: ['frontend'], sourceOrg: 'vercel-labs' })
+    );
+    return new SkillCompleter(registry);
+  };
+
+  describe('scoreMatch', () => {
+    it('should rank prefix above segment above substring above subsequence', () => {
+      const prefix = scoreMatch('stripe-best-practices', 'stri');
+      const segment = scoreMatch('stripe-best-practices', 'best');
+      const substring = scoreMatch('stripe-best-practices', 'ipe-b');
+      const subsequence = scoreMatch('stripe-best-practices', 'sbp');
+
+      expect(prefix).toBeGreaterThan(segment);
+      expect(segment).toBeGreaterThan(substring);
+      expect(substring).toBeGreaterThan(subsequence);
+      expect(subsequence).toBeGreaterThan(0);
+      expect(scoreMatch('stripe-best-practices', 'xyz')).toBe(0);
+    });
+
+    it('should match input typed as a display name', () => {
+      expect(scoreMatch('stripe-best-practices', 'Stripe Best')).toBeGreaterThan(0);
+    });
+  });
+
+  describe('rankCompletions', () => {
+    it('should cap results at 100 values and report hasMore', () => {
+      const candidates = Array.from({ length: 150 }, (_, i) => `skill-${i}`);
+      const result = rankCompletions(candidates, 'skill');
+
+      expect(result.values).toHaveLength(100);
+      expect(result.total).toBe(150);
+      expect(result.hasMore).toBe(true);
+    });
+  });
+
+  it('should complete skill ids with prefix matches first', () => {
+    const result = createCompleter().completeSkillId('fr');
+
+    expect(result.values[0]).toBe('frontend-design');
+  });
+
+  it('should complete skill ids fuzzily', () => {
+    const result = createCompleter().completeSkillId('best');
+
+    expect(result.values).toEqual(['react-best-practices', 'stripe-best-practices']);
+  });
+
+  it('should complete unique tags and source orgs', () => {
+    const completer = createCompleter();
+
+    expect(completer.completeTag('front').values).toEqual(['frontend']);
+    expect(completer.completeSourceOrg('ver').values).toEqual(['vercel-labs']);
+  });
+
+  it('should complete enum parameter values', () => {
+    const result = createCompleter().completeParameterValue('frontend-design', 'framework', 're');
+
+    expect(result?.values).toEqual(['react', 'react-native']);
+  });
+
+  it('should return null for parameters without an enum', () => {
+    const completer = createCompleter();
+
+    expect(completer.completeParameterValue('frontend-design', 'missing', '')).toBeNull();
+    expect(completer.completeArgument('unknown', '')).toBeNull();
+  });
+});
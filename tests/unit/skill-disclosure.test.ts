@@ -0,0 +1,85 @@
+import { describe, it, expect } from 'vitest';
+import { discloseContent } from '../../src/services/skill-disclosure.js';
+import { estimateTokens } from '../../src/utils/tokens.js';
+
+const description = 'Fill and read PDFs';
+
+const content = [
+  '# PDF',
+  '',
+  'Work with PDF files.',
+  '',
+  '## Examples',
+  '',
+  'A long worked example that takes up a lot of room in the context window of the agent. '.repeat(
+    4
+  ),
+  '',
+  '## Instructions',
+  '',
+  'Open the file first.',
+  '',
+  'Then read every page before editing.',
+].join('\n');
+
+describe('discloseContent', () => {
+  it('should return full content unchanged when it fits the budget', () => {
+    expect(discloseContent(description, content, { maxTokens: 1000 })).toEqual({
+      content,
+      tokens: estimateTokens(content),
+      truncated: false,
+      omittedSections: [],
+    });
+  });
+
+  it('should return the description and section names as a summary', () => {
+    const result = discloseContent(description, content, { detail: 'summary' });
+
+    expect(result.content).toBe(
+      'Fill and read PDFs\n\n' +
+        '[Summary only. Not shown in full: PDF; Examples; Instructions. ' +
+        'Request them with `sections`.]'
+    );
+    expect(result.truncated).toBe(false);
+  });
+
+  it('should cut each section after its first paragraph for an overview', () => {
+    const result = discloseContent(description, content, { detail: 'overview' });
+
+    expect(result.content).toContain('## Instructions\n\nOpen the file first.\n\n[Overview only.');
+    expect(result.content).not.toContain('Then read every page');
+    expect(result.omittedSections).toEqual(['Instructions']);
+  });
+
+  it('should keep the most relevant sections within the budget and mark the rest', () => {
+    const result = discloseContent(description, content, { maxTokens: 70 });
+
+    expect(result.truncated).toBe(true);
+    expect(result.tokens).toBeLessThanOrEqual(70);
+    expect(result.omittedSections).toEqual(['Examples']);
+    expect(result.content).toBe(
+      [
+        'Fill and read PDFs',
+        '# PDF\n\nWork with PDF files.',
+        '## Instructions\n\nOpen the file first.\n\nThen read every page before editing.',
+        '[Truncated to fit 70 tokens. Not shown in full: Examples. Request them with `sections`.]',
+      ].join('\n\n')
+    );
+  });
+
+  it('should name sections by heading path when a title is ambiguous', () => {
+    const result = discloseContent(
+      description,
+      '# A\n\n## Usage\n\n### Notes\n\nOne.\n\n## Setup\n\n### Notes\n\nTwo.',
+      { detail: 'summary' }
+    );
+
+    expect(result.omittedSections).toEqual([
+      'A',
+      'Usage',
+      'Usage > Notes',
+      'Setup',
+      'Setup > Notes',
+    ]);
+  });
+});
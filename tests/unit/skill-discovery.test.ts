@@ -0,0 +1,133 @@
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import { mkdtempSync, mkdirSync, writeFileSync, rmSync } from 'fs';
+import { tmpdir } from 'os';
+import { join, relative } from 'path';
+import {
+  discoverManifestSkills,
+  discoverSkillDirectories,
+} from '../../src/services/skill-discovery.js';
+import { SkillParser } from '../../src/services/skill-parser.js';
+
+describe('skill discovery', () => {
+  let repoDir: string;
+
+  const writeFile = (path: string, content: string) => {
+    const fullPath = join(repoDir, path);
+    mkdirSync(join(fullPath, '..'), { recursive: true });
+    writeFileSync(fullPath, content);
+  };
+
+  const writeSkill = (path: string) => {
+    const name = path.split('/').pop();
+    writeFile(`${path}/SKILL.md`, `---\nname: ${name}\ndescription: The ${name} skill\n---\n`);
+  };
+
+  const relativeDirs = (skills: Array<{ dir: string }>) =>
+    skills.map((skill) => relative(repoDir, skill.dir));
+
+  beforeEach(() => {
+    repoDir = mkdtempSync(join(tmpdir(), 'skill-discovery-'));
+  });
+
+  afterEach(() => {
+    rmSync(repoDir, { recursive: true, force: true });
+  });
+
+  describe('discoverSkillDirectories', () => {
+    it('should find nested skills and record their category path', async () => {
+      writeSkill('skills/documents/office/docx');
+      writeSkill('skills/documents/pdf');
+      writeSkill('skills/frontend-design');
+      writeSkill('skills/frontend-design/examples/not-a-skill');
+
+      const skills = await discoverSkillDirectories(join(repoDir, 'skills'));
+
+      const found = skills.map(({ dir, categoryPath }) => [relative(repoDir, dir), categoryPath]);
+      expect(found).toEqual([
+        ['skills/documents/office/docx', ['documents', 'office']],
+        ['skills/documents/pdf', ['documents']],
+        ['skills/frontend-design', []],
+      ]);
+    });
+
+    it('should skip ignored, hidden and too-deep directories', async () => {
+      writeSkill('node_modules/pkg/skill');
+      writeSkill('.github/skill');
+      writeSkill('drafts/wip');
+      writeSkill('a/b/c/deep');
+      writeSkill('shallow');
+
+      const skills = await discoverSkillDirectories(repoDir, { ignore: ['drafts'], maxDepth: 3 });
+
+      expect(relativeDirs(skills)).toEqual(['shallow']);
+    });
+
+    it('should match ignore patterns against root-relative paths', async () => {
+      writeSkill('team/drafts/one');
+      writeSkill('team/published/two');
+
+      const skills = await discoverSkillDirectories(repoDir, { ignore: ['team/dr*'] });
+
+      expect(relativeDirs(skills)).toEqual(['team/published/two']);
+    });
+  });
+
+  describe('discoverManifestSkills', () => {
+    it('should return null without a manifest', async () => {
+      expect(await discoverManifestSkills(repoDir)).toBeNull();
+    });
+
+    it('should read skill paths listed in a marketplace manifest', async () => {
+      writeSkill('document-skills/xlsx');
+      writeSkill('document-skills/docx');
+      writeSkill('example-skills/skills/art');
+      writeFile(
+        '.claude-plugin/marketplace.json',
+        JSON.stringify({
+          name: 'example-marketplace',
+          plugins: [
+            { name: 'document-skills', source: './', skills: ['./document-skills/xlsx'] },
+            { name: 'example-skills', source: './example-skills' },
+            { name: 'remote', source: { source: 'github', repo: 'acme/remote' } },
+            { name: 'escape', source: '../outside' },
+          ],
+        })
+      );
+
+      const skills = await discoverManifestSkills(repoDir);
+
+      expect(
+        skills?.map(({ dir, categoryPath, plugin }) => [
+          relative(repoDir, dir),
+          categoryPath,
+          plugin,
+        ])
+      ).toEqual([
+        ['document-skills/xlsx', ['document-skills'], 'document-skills'],
+        ['example-skills/skills/art', ['example-skills'], 'example-skills'],
+      ]);
+    });
+
+    it('should read the skills of a single plugin manifest', async () => {
+      writeSkill('custom/lint');
+      writeFile(
+        '.claude-plugin/plugin.json',
+        JSON.stringify({ name: 'quality', skills: 'custom' })
+      );
+
+      const skills = await discoverManifestSkills(repoDir);
+
+      expect(skills).toEqual([
+        { dir: join(repoDir, 'custom', 'lint'), categoryPath: ['quality'], plugin: 'quality' },
+      ]);
+    });
+  });
+
+  it('should record the category path in parsed skill metadata', async () => {
+    writeSkill('skills/documents/pdf');
+
+    const [skill] = await new SkillParser().parseSkillsFromRepo(repoDir, 'local');
+
+    expect(skill).toMatchObject({ id: 'pdf', metadata: { categoryPath: ['documents'] } });
+  });
+});
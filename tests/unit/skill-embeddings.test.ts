@@ -0,0 +1,179 @@
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import { mkdtempSync, rmSync } from 'fs';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import { SkillEmbeddingIndex, combineSearchResults } from '../../src/services/skill-embeddings.js';
+import { LocalEmbeddingProvider } from '../../src/embeddings/local-provider.js';
+import { EmbeddingProvider, cosineSimilarity } from '../../src/embeddings/provider.js';
+import { CacheManager } from '../../src/cache/cache-manager.js';
+import { SkillRegistry } from '../../src/models/registry.js';
+import { Skill } from '../../src/models/skill.js';
+
+class CountingProvider implements EmbeddingProvider {
+  readonly id: string;
+  embedded: string[] = [];
+  private local = new LocalEmbeddingProvider();
+
+  constructor(id = 'counting') {
+    this.id = id;
+  }
+
+  async embed(texts: string[]): Promise<number[][]> {
+    this.embedded.push(...texts);
+    return this.local.embed(texts);
+  }
+}
+
+describe('LocalEmbeddingProvider', () => {
+  const provider = new LocalEmbeddingProvider();
+
+  const similarity = async (a: string, b: string): Promise<number> => {
+    const [left, right] = await provider.embed([a, b]);
+    return cosineSimilarity(left, right);
+  };
+
+  it('should place synonyms closer than unrelated words', async () => {
+    expect(await similarity('spreadsheet', 'xlsx')).toBeGreaterThan(
+      await similarity('spreadsheet', 'kubernetes')
+    );
+  });
+
+  it('should be deterministic and normalized', async () => {
+    const [first] = await provider.embed(['Fill PDF forms']);
+    const [second] = await provider.embed(['Fill PDF forms']);
+
+    expect(first).toEqual(second);
+    expect(Math.hypot(...first)).toBeCloseTo(1);
+  });
+});
+
+describe('SkillEmbeddingIndex', () => {
+  let cacheDir: string;
+  let registry: SkillRegistry;
+  let cacheManager: CacheManager;
+
+  const createTestSkill = (id: string, overrides: Partial<Skill> = {}): Skill => ({
+    id,
+    name: id,
+    description: `Skill ${id}`,
+    source: 'repository',
+    sourcePath: `/path/to/${id}`,
+    content: `Instructions for ${id}.`,
+    parameters: [],
+    metadata: {},
+    lastUpdated: new Date(),
+    ...overrides,
+  });
+
+  beforeEach(() => {
+    cacheDir = mkdtempSync(join(tmpdir(), 'skill-embeddings-'));
+    cacheManager = new CacheManager(cacheDir);
+    registry = new SkillRegistry(cacheDir);
+    registry.registerSkill(
+      createTestSkill('xlsx', { description: 'Create and analyze Excel workbooks' })
+    );
+    registry.registerSkill(
+      createTestSkill('frontend-design', { description: 'Build distinctive web interfaces' })
+    );
+  });
+
+  afterEach(() => {
+    rmSync(cacheDir, { recursive: true, force: true });
+  });
+
+  it('should find skills by meaning', async () => {
+    const index = new SkillEmbeddingIndex(registry, new LocalEmbeddingProvider(), cacheManager);
+    await index.start();
+
+    const matches = await index.search('edit a spreadsheet');
+    index.dispose();
+
+    expect(matches[0].skill.id).toBe('xlsx');
+    expect(matches.map((match) => match.skill.id)).not.toContain('frontend-design');
+  });
+
+  it('should only re-embed skills whose content changed', async () => {
+    const provider = new CountingProvider();
+    const index = new SkillEmbeddingIndex(registry, provider, cacheManager);
+    await index.start();
+    expect(provider.embedded).toHaveLength(2);
+
+    registry.registerSkill(createTestSkill('xlsx', { description: 'Edit spreadsheets' }));
+    registry.registerSkill(
+      createTestSkill('frontend-design', { description: 'Build distinctive web interfaces' })
+    );
+    await index.whenIdle();
+    index.dispose();
+
+    expect(provider.embedded).toHaveLength(3);
+    expect(provider.embedded[2]).toContain('Edit spreadsheets');
+  });
+
+  it('should reuse cached vectors after a restart', async () => {
+    await new SkillEmbeddingIndex(registry, new CountingProvider(), cacheManager).start();
+
+    const provider = new CountingProvider();
+    const index = new SkillEmbeddingIndex(registry, provider, cacheManager);
+    await index.start();
+    index.dispose();
+
+    expect(provider.embedded).toHaveLength(0);
+  });
+
+  it('should discard cached vectors from a different provider', async () => {
+    await new SkillEmbeddingIndex(registry, new CountingProvider('old'), cacheManager).start();
+
+    const provider = new CountingProvider('new');
+    const index = new SkillEmbeddingIndex(registry, provider, cacheManager);
+    await index.start();
+    index.dispose();
+
+    expect(provider.embedded).toHaveLength(2);
+    expect((await cacheManager.loadEmbeddings())?.provider).toBe('new');
+  });
+
+  it('should drop vectors of removed skills', async () => {
+    const index = new SkillEmbeddingIndex(registry, new CountingProvider(), cacheManager);
+    await index.start();
+
+    registry.replaceSkills([
+      createTestSkill('xlsx', { description: 'Create and analyze Excel workbooks' }),
+    ]);
+    await index.whenIdle();
+    index.dispose();
+
+    expect(Object.keys((await cacheManager.loadEmbeddings())?.entries ?? {})).toEqual(['xlsx']);
+  });
+});
+
+describe('combineSearchResults', () => {
+  const skill = (id: string): Skill => ({
+    id,
+    name: id,
+    description: '',
+    source: 'repository',
+    sourcePath: `/path/to/${id}`,
+    content: '',
+    parameters: [],
+    metadata: {},
+    lastUpdated: new Date(),
+  });
+
+  it('should rank skills found by both signals first and keep semantic-only matches', () => {
+    const results = combineSearchResults(
+      [
+        { skill: skill('a'), score: 4, matchedFields: ['name'], matchedTerms: ['x'] },
+        { skill: skill('b'), score: 2, matchedFields: ['content'], matchedTerms: ['x'] },
+      ],
+      [
+        { skill: skill('b'), similarity: 0.9 },
+        { skill: skill('c'), similarity: 0.6 },
+      ]
+    );
+
+    expect(results.map((result) => result.skill.id)).toEqual(['b', 'a', 'c']);
+    expect(results[0].score).toBeCloseTo(0.7);
+    expect(results[0].similarity).toBe(0.9);
+    expect(results[2]).toMatchObject({ score: 0.3, matchedFields: [] });
+  });
+});
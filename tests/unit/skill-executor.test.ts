@@ -2,6 +2,7 @@ import { describe, it, expect } from 'vitest';
 import { SkillExecutor } from '../../src/services/skill-executor.js';
 import { SkillRegistry } from '../../src/models/registry.js';
 import { Skill } from '../../src/models/skill.js';
+import { InvalidCursorError } from '../../src/utils/pagination.js';
 
 describe('SkillExecutor', () => {
   const createTestSkill = (id: string, content: string): Skill => ({
@@ -34,6 +35,66 @@ describe('SkillExecutor', () => {
       expect(result.error?.code).toBe('SkillNotFound');
     });
 
+    it('should suggest similar skills when the id is unknown', async () => {
+      const registry = new SkillRegistry('/tmp/cache');
+      registry.registerSkill(createTestSkill('greeting', 'Hello, {{name}}!'));
+      const executor = new SkillExecutor(registry);
+
+      const result = await executor.invokeSkill('greting', { name: 'World' });
+
+      expect(result.success).toBe(false);
+      expect(result.error?.message).toBe('Skill not found: greting. Did you mean: greeting?');
+      expect(result.error?.details?.suggestions).toEqual([
+        expect.objectContaining({ id: 'greeting' }),
+      ]);
+    });
+
+    it('should auto-resolve a single close match when enabled', async () => {
+      const registry = new SkillRegistry('/tmp/cache');
+      registry.registerSkill(createTestSkill('greeting', 'Hello, {{name}}!'));
+      const executor = new SkillExecutor(registry, { autoResolve: true });
+
+      const result = await executor.invokeSkill('greting', { name: 'World' });
+
+      expect(result.success).toBe(true);
+      expect(result.content).toBe('Hello, World!');
+      expect(result.resolvedSkillId).toBe('greeting');
+    });
+
+    it('should resolve unambiguous short ids and list candidates for ambiguous ones', async () => {
+      const registry = new SkillRegistry('/tmp/cache');
+      registry.registerSkill(createTestSkill('acme/skills/frontend-design', 'Acme, {{name}}'));
+      registry.registerSkill(createTestSkill('globex/skills/frontend-design', 'Globex, {{name}}'));
+      registry.registerSkill(createTestSkill('acme/skills/greeting', 'Hello, {{name}}!'));
+      const executor = new SkillExecutor(registry, { autoResolve: true });
+
+      const resolved = await executor.invokeSkill('greeting', { name: 'World' });
+      expect(resolved).toMatchObject({
+        success: true,
+        content: 'Hello, World!',
+        resolvedSkillId: 'acme/skills/greeting',
+      });
+
+      const ambiguous = await executor.invokeSkill('frontend-design', { name: 'World' });
+      expect(ambiguous.error).toMatchObject({
+        code: 'InvalidParams',
+        message:
+          "Skill id 'frontend-design' is ambiguous. Use one of: " +
+          'acme/skills/frontend-design, globex/skills/frontend-design',
+        details: {
+          candidates: [
+            { id: 'acme/skills/frontend-design', name: 'Test acme/skills/frontend-design' },
+            { id: 'globex/skills/frontend-design', name: 'Test globex/skills/frontend-design' },
+          ],
+        },
+      });
+
+      const qualified = await executor.invokeSkill('globex/skills/frontend-design', {
+        name: 'World',
+      });
+      expect(qualified.content).toBe('Globex, World');
+    });
+
     it('should substitute parameters into content', async () => {
       const registry = new SkillRegistry('/tmp/cache');
       const skill = createTestSkill('greeting', 'Hello, {{name}}!');
@@ -46,6 +107,53 @@ describe('SkillExecutor', () => {
       expect(result.content).toBe('Hello, World!');
     });
 
+    it('should fill in declared defaults for omitted parameters', async () => {
+      const registry = new SkillRegistry('/tmp/cache');
+      const skill = createTestSkill('greeting', '{{greeting}}, {{name}}!');
+      skill.parameters.push({
+        name: 'greeting',
+        type: 'string',
+        description: 'How to greet',
+        required: false,
+        default: 'Hello',
+      });
+      registry.registerSkill(skill);
+
+      const executor = new SkillExecutor(registry);
+
+      expect((await executor.invokeSkill('greeting', { name: 'World' })).content).toBe(
+        'Hello, World!'
+      );
+      expect(
+        (await executor.invokeSkill('greeting', { name: 'World', greeting: 'Hi' })).content
+      ).toBe('Hi, World!');
+    });
+
+    it('should only return the requested sections', async () => {
+      const registry = new SkillRegistry('/tmp/cache');
+      registry.registerSkill(
+        createTestSkill(
+          'greeting',
+          '# Greeting\n\n## Formal\n\nGood day, {{name}}.\n\n## Casual\n\nHi!'
+        )
+      );
+      const executor = new SkillExecutor(registry);
+
+      const result = await executor.invokeSkill(
+        'greeting',
+        { name: 'Ada' },
+        { sections: ['Formal'] }
+      );
+      expect(result.content).toBe('## Formal\n\nGood day, Ada.');
+
+      const missing = await executor.getSkillDocumentation('greeting', { sections: ['Slang'] });
+      expect(missing.error).toMatchObject({
+        code: 'InvalidParams',
+        message:
+          'Section not found: Slang. Available sections: Greeting, Greeting > Formal, Greeting > Casual',
+      });
+    });
+
     it('should return error for missing required parameters', async () => {
       const registry = new SkillRegistry('/tmp/cache');
       const skill = createTestSkill('greeting', 'Hello, {{name}}!');
@@ -129,10 +237,11 @@ describe('SkillExecutor', () => {
       registry.registerSkill(skill2);
 
       const executor = new SkillExecutor(registry);
-      const filtered = executor.listSkills('api');
+      const filtered = executor.listSkills({ filter: 'api' });
 
-      expect(filtered).toHaveLength(1);
-      expect(filtered[0].id).toBe('api-tester');
+      expect(filtered.skills).toHaveLength(1);
+      expect(filtered.skills[0].id).toBe('api-tester');
+      expect(filtered.total).toBe(1);
     });
 
     it('should filter skills by source', () => {
@@ -166,10 +275,150 @@ describe('SkillExecutor', () => {
       registry.registerSkill(localSkill);
 
       const executor = new SkillExecutor(registry);
-      const localSkills = executor.listSkills(undefined, 'local');
+      const localSkills = executor.listSkills({ source: 'local' });
+
+      expect(localSkills.skills).toHaveLength(1);
+      expect(localSkills.skills[0].id).toBe('local-skill');
+    });
+
+    it('should page through skills with an opaque cursor', () => {
+      const registry = new SkillRegistry('/tmp/cache');
+      for (const id of ['e', 'a', 'd', 'b', 'c']) {
+        registry.registerSkill(createTestSkill(id, id));
+      }
+      const executor = new SkillExecutor(registry);
+
+      const first = executor.listSkills({ limit: 2 });
+      expect(first.skills.map((s) => s.id)).toEqual(['a', 'b']);
+      expect(first.total).toBe(5);
+      expect(first.nextCursor).toBeDefined();
+
+      const second = executor.listSkills({ limit: 2, cursor: first.nextCursor });
+      expect(second.skills.map((s) => s.id)).toEqual(['c', 'd']);
+
+      const last = executor.listSkills({ limit: 2, cursor: second.nextCursor });
+      expect(last.skills.map((s) => s.id)).toEqual(['e']);
+      expect(last.nextCursor).toBeUndefined();
+    });
+
+    it('should reject a malformed cursor', () => {
+      const registry = new SkillRegistry('/tmp/cache');
+      registry.registerSkill(createTestSkill('a', 'a'));
+      const executor = new SkillExecutor(registry);
+
+      expect(() => executor.listSkills({ cursor: 'not-a-cursor' })).toThrow(InvalidCursorError);
+    });
+
+    it('should sort by lastUpdated newest first and by org with missing orgs last', () => {
+      const registry = new SkillRegistry('/tmp/cache');
+      registry.registerSkill({
+        ...createTestSkill('old', 'old'),
+        metadata: { sourceOrg: 'zeta' },
+        lastUpdated: new Date('2024-01-01'),
+      });
+      registry.registerSkill({
+        ...createTestSkill('new', 'new'),
+        lastUpdated: new Date('2025-01-01'),
+      });
+      registry.registerSkill({
+        ...createTestSkill('mid', 'mid'),
+        metadata: { sourceOrg: 'alpha' },
+        lastUpdated: new Date('2024-06-01'),
+      });
+      const executor = new SkillExecutor(registry);
+
+      expect(executor.listSkills({ sort: 'lastUpdated' }).skills.map((s) => s.id)).toEqual([
+        'new',
+        'mid',
+        'old',
+      ]);
+      expect(executor.listSkills({ sort: 'org' }).skills.map((s) => s.id)).toEqual([
+        'mid',
+        'old',
+        'new',
+      ]);
+      expect(executor.listSkills({ sort: 'org', order: 'desc' }).skills.map((s) => s.id)).toEqual([
+        'old',
+        'mid',
+        'new',
+      ]);
+      expect(executor.listSkills({ sort: 'name', order: 'desc' }).skills.map((s) => s.id)).toEqual([
+        'old',
+        'new',
+        'mid',
+      ]);
+    });
+
+    describe('facets', () => {
+      const createFacetSkill = (id: string, metadata: Skill['metadata'], withParams = false) => ({
+        ...createTestSkill(id, id),
+        parameters: withParams ? createTestSkill(id, id).parameters : [],
+        metadata,
+      });
+
+      const createExecutor = () => {
+        const registry = new SkillRegistry('/tmp/cache');
+        registry.registerSkill(
+          createFacetSkill('audit', { sourceOrg: 'trailofbits', tags: ['security', 'solidity'] })
+        );
+        registry.registerSkill(
+          createFacetSkill('fuzz', { sourceOrg: 'trailofbits', tags: ['security'] }, true)
+        );
+        registry.registerSkill(
+          createFacetSkill('next', {
+            sourceOrg: 'vercel',
+            sourceRepo: 'agent-skills',
+            author: 'Vercel',
+            tags: ['react'],
+          })
+        );
+        return new SkillExecutor(registry);
+      };
+
+      it('should count facet values across all matching skills', () => {
+        const page = createExecutor().listSkills({ limit: 1 });
+
+        expect(page.skills).toHaveLength(1);
+        expect(page.facets.orgs).toEqual([
+          { value: 'trailofbits', count: 2 },
+          { value: 'vercel', count: 1 },
+        ]);
+        expect(page.facets.tags[0]).toEqual({ value: 'security', count: 2 });
+        expect(page.facets.repos).toEqual([{ value: 'agent-skills', count: 1 }]);
+        expect(page.facets.authors).toEqual([{ value: 'Vercel', count: 1 }]);
+      });
+
+      it('should filter by any or all tags', () => {
+        const executor = createExecutor();
+
+        const any = executor.listSkills({ tags: ['solidity', 'react'] });
+        const all = executor.listSkills({ tags: ['Security', 'solidity'], tagMatch: 'all' });
+
+        expect(any.skills.map((s) => s.id)).toEqual(['audit', 'next']);
+        expect(all.skills.map((s) => s.id)).toEqual(['audit']);
+      });
+
+      it('should filter by org, repo, author and parameters', () => {
+        const executor = createExecutor();
+
+        expect(executor.listSkills({ org: 'TrailOfBits' }).total).toBe(2);
+        expect(executor.listSkills({ repo: 'agent-skills' }).skills[0].id).toBe('next');
+        expect(executor.listSkills({ author: 'vercel' }).skills[0].id).toBe('next');
+        expect(
+          executor.listSkills({ org: 'trailofbits', hasParameters: true }).skills.map((s) => s.id)
+        ).toEqual(['fuzz']);
+        expect(executor.listSkills({ hasParameters: false }).total).toBe(2);
+      });
+
+      it('should compute facets over the filtered skills', () => {
+        const page = createExecutor().listSkills({ org: 'trailofbits' });
 
-      expect(localSkills).toHaveLength(1);
-      expect(localSkills[0].id).toBe('local-skill');
+        expect(page.facets.orgs).toEqual([{ value: 'trailofbits', count: 2 }]);
+        expect(page.facets.tags).toEqual([
+          { value: 'security', count: 2 },
+          { value: 'solidity', count: 1 },
+        ]);
+      });
     });
   });
 });
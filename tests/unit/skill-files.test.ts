@@ -0,0 +1,120 @@
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import { createHash } from 'crypto';
+import { mkdtempSync, mkdirSync, writeFileSync, rmSync, statSync, symlinkSync } from 'fs';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import {
+  MAX_SKILL_FILE_BYTES,
+  SkillFileError,
+  indexSkillFiles,
+  normalizeSkillFilePath,
+  readSkillFile,
+} from '../../src/services/skill-files.js';
+import { Skill } from '../../src/models/skill.js';
+
+describe('skill files', () => {
+  let rootDir: string;
+  let skillDir: string;
+
+  const write = (path: string, content: string | Buffer) => {
+    const fullPath = join(skillDir, path);
+    mkdirSync(join(fullPath, '..'), { recursive: true });
+    writeFileSync(fullPath, content);
+  };
+
+  const createSkill = async (): Promise<Skill> => ({
+    id: 'pdf',
+    name: 'pdf',
+    description: 'Work with PDFs',
+    source: 'local',
+    sourcePath: skillDir,
+    content: '# PDF',
+    parameters: [],
+    metadata: {},
+    lastUpdated: new Date(),
+    files: await indexSkillFiles(skillDir, ['SKILL.md']),
+  });
+
+  beforeEach(() => {
+    rootDir = mkdtempSync(join(tmpdir(), 'skill-files-'));
+    skillDir = join(rootDir, 'pdf');
+    write('SKILL.md', '# PDF');
+    write('references/forms.md', '# Forms');
+    write('scripts/fill.py', 'print("fill")');
+    write('assets/logo.png', Buffer.from([0x89, 0x50, 0x4e, 0x47]));
+    write('.DS_Store', 'hidden');
+    writeFileSync(join(rootDir, 'secret.txt'), 'secret');
+  });
+
+  afterEach(() => {
+    rmSync(rootDir, { recursive: true, force: true });
+  });
+
+  it('should normalize relative paths and reject paths that leave the skill', () => {
+    expect(normalizeSkillFilePath('references/./forms.md')).toBe('references/forms.md');
+    expect(normalizeSkillFilePath('scripts\\fill.py')).toBe('scripts/fill.py');
+    expect(normalizeSkillFilePath('../secret.txt')).toBeUndefined();
+    expect(normalizeSkillFilePath('references/../../secret.txt')).toBeUndefined();
+    expect(normalizeSkillFilePath('/etc/passwd')).toBeUndefined();
+    expect(normalizeSkillFilePath('C:/Windows')).toBeUndefined();
+  });
+
+  it('should index bundled files with size, mime type and hash', async () => {
+    const files = await indexSkillFiles(skillDir, ['SKILL.md']);
+
+    expect(files.map((file) => file.path)).toEqual([
+      'assets/logo.png',
+      'references/forms.md',
+      'scripts/fill.py',
+    ]);
+    expect(files[1]).toMatchObject({ size: 7, mimeType: 'text/markdown' });
+    expect(files[1].hash).toMatch(/^[0-9a-f]{64}$/);
+  });
+
+  it('should not read files over the size limit to hash them', async () => {
+    const content = Buffer.alloc(MAX_SKILL_FILE_BYTES + 1);
+    write('assets/model.bin', content);
+
+    const file = (await indexSkillFiles(skillDir)).find((f) => f.path === 'assets/model.bin');
+    const { mtimeMs } = statSync(join(skillDir, 'assets', 'model.bin'));
+
+    expect(file?.size).toBe(MAX_SKILL_FILE_BYTES + 1);
+    expect(file?.hash).toBe(
+      createHash('sha256')
+        .update(`${MAX_SKILL_FILE_BYTES + 1}:${mtimeMs}`)
+        .digest('hex')
+    );
+  });
+
+  it('should skip symbolic links', async () => {
+    symlinkSync(join(rootDir, 'secret.txt'), join(skillDir, 'link.txt'));
+
+    const files = await indexSkillFiles(skillDir);
+
+    expect(files.map((file) => file.path)).not.toContain('link.txt');
+  });
+
+  it('should read text files as text and binary files as base64', async () => {
+    const skill = await createSkill();
+
+    expect(await readSkillFile(skill, 'references/forms.md')).toMatchObject({ text: '# Forms' });
+    expect(await readSkillFile(skill, 'assets/logo.png')).toMatchObject({ blob: 'iVBORw==' });
+  });
+
+  it('should refuse paths outside the skill and files that are not indexed', async () => {
+    const skill = await createSkill();
+
+    await expect(readSkillFile(skill, '../secret.txt')).rejects.toThrow(SkillFileError);
+    await expect(readSkillFile(skill, '.DS_Store')).rejects.toThrow('File not found');
+  });
+
+  it('should refuse indexed paths that now resolve outside the skill', async () => {
+    const skill = await createSkill();
+    rmSync(join(skillDir, 'references'), { recursive: true });
+    mkdirSync(join(rootDir, 'elsewhere'));
+    writeFileSync(join(rootDir, 'elsewhere', 'forms.md'), 'outside');
+    symlinkSync(join(rootDir, 'elsewhere'), join(skillDir, 'references'));
+
+    await expect(readSkillFile(skill, 'references/forms.md')).rejects.toThrow('Invalid file path');
+  });
+});
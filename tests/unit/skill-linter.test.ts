@@ -0,0 +1,131 @@
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import { mkdtempSync, mkdirSync, writeFileSync, rmSync } from 'fs';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import { formatLintReport, lintSkills } from '../../src/services/skill-linter.js';
+
+describe('lintSkills', () => {
+  let repoDir: string;
+
+  const writeSkill = (path: string, content: string) => {
+    const skillDir = join(repoDir, path);
+    mkdirSync(skillDir, { recursive: true });
+    writeFileSync(join(skillDir, 'SKILL.md'), content);
+  };
+
+  beforeEach(() => {
+    repoDir = mkdtempSync(join(tmpdir(), 'skill-linter-'));
+  });
+
+  afterEach(() => {
+    rmSync(repoDir, { recursive: true, force: true });
+  });
+
+  it('should report nothing for valid skills', async () => {
+    writeSkill('pdf', '---\nname: pdf\ndescription: Work with PDFs\n---\n# PDF');
+
+    const report = await lintSkills(repoDir);
+
+    expect(report).toEqual({
+      directory: repoDir,
+      skillCount: 1,
+      errorCount: 0,
+      warningCount: 0,
+      diagnostics: [],
+    });
+  });
+
+  it('should report parser diagnostics with their file and line', async () => {
+    writeSkill(
+      'pdf',
+      '---\nname: pdf\ndescription: Work with PDFs\nparameters:\n  pages: { type: int }\n---\n'
+    );
+
+    const report = await lintSkills(repoDir);
+
+    expect(report.errorCount).toBe(1);
+    expect(report.diagnostics).toEqual([
+      expect.objectContaining({
+        file: join('pdf', 'SKILL.md'),
+        line: 4,
+        severity: 'error',
+        rule: 'parameter-schema',
+        skillId: 'local/pdf',
+      }),
+    ]);
+  });
+
+  it('should report descriptions over the skill schema limit', async () => {
+    writeSkill('pdf', `---\nname: pdf\ndescription: ${'a'.repeat(501)}\n---\n`);
+
+    const report = await lintSkills(repoDir);
+
+    expect(report.diagnostics).toEqual([
+      expect.objectContaining({
+        severity: 'error',
+        rule: 'skill-schema',
+        message: 'Skill description is invalid: String must contain at most 500 character(s)',
+        line: 3,
+      }),
+    ]);
+  });
+
+  it('should report skills that share an id', async () => {
+    // Both directory names normalize to the id "pdf-tools"
+    writeSkill('docs/pdf-tools', '---\nname: pdf\ndescription: Work with PDFs\n---\n');
+    writeSkill('docs/pdf_tools', '---\nname: pdf\ndescription: Fill PDF forms\n---\n');
+    // Same-named skills in different category directories get different ids
+    writeSkill('forms/pdf-tools', '---\nname: pdf\ndescription: Fill PDF forms\n---\n');
+
+    const report = await lintSkills(repoDir);
+
+    expect(report.diagnostics.filter((diagnostic) => diagnostic.rule === 'id-collision')).toEqual([
+      expect.objectContaining({
+        file: join('docs', 'pdf_tools', 'SKILL.md'),
+        message: `Skill id 'local/docs/pdf-tools' is also used by ${join('docs', 'pdf-tools', 'SKILL.md')}`,
+      }),
+      expect.objectContaining({ file: join('docs', 'pdf-tools', 'SKILL.md') }),
+    ]);
+  });
+
+  it('should refuse a directory that does not exist or is a file', async () => {
+    writeFileSync(join(repoDir, 'notes.md'), '# Notes');
+
+    await expect(lintSkills(join(repoDir, 'missing'))).rejects.toThrow(
+      `Cannot lint ${join(repoDir, 'missing')}: no such directory`
+    );
+    await expect(lintSkills(join(repoDir, 'notes.md'))).rejects.toThrow(
+      `Cannot lint ${join(repoDir, 'notes.md')}: not a directory`
+    );
+  });
+
+  it('should not read a README alone as an awesome list', async () => {
+    writeFileSync(
+      join(repoDir, 'README.md'),
+      '# Skills\n\n- [pdf](https://github.com/acme/tools/tree/main/pdf) - Work with PDFs\n'
+    );
+    const fetchMock = vi.fn();
+    vi.stubGlobal('fetch', fetchMock);
+
+    try {
+      const report = await lintSkills(repoDir);
+
+      expect(report.skillCount).toBe(0);
+      expect(fetchMock).not.toHaveBeenCalled();
+    } finally {
+      vi.unstubAllGlobals();
+    }
+  });
+
+  it('should format one line per diagnostic and a summary', async () => {
+    writeSkill('pdf', '---\nname: PDF\ndescription: Work with PDFs\n---\n');
+
+    const report = await lintSkills(repoDir);
+
+    expect(formatLintReport(report).split('\n')).toEqual([
+      expect.stringMatching(/^pdf\/SKILL\.md:2: warning .+ \(name-format\)$/),
+      expect.stringMatching(/^pdf\/SKILL\.md:2: warning .+ \(name-directory-mismatch\)$/),
+      '0 errors and 2 warnings in 1 skill',
+    ]);
+  });
+});
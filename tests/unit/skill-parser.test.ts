@@ -0,0 +1,399 @@
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import { mkdtempSync, mkdirSync, writeFileSync, rmSync } from 'fs';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import { SkillParser } from '../../src/services/skill-parser.js';
+
+describe('SkillParser', () => {
+  let repoDir: string;
+
+  const writeSkill = (dirName: string, content: string) => {
+    const skillDir = join(repoDir, 'skills', dirName);
+    mkdirSync(skillDir, { recursive: true });
+    writeFileSync(join(skillDir, 'SKILL.md'), content);
+  };
+
+  beforeEach(() => {
+    repoDir = mkdtempSync(join(tmpdir(), 'skill-parser-'));
+  });
+
+  afterEach(() => {
+    rmSync(repoDir, { recursive: true, force: true });
+  });
+
+  describe('parseSkillsFromRepo', () => {
+    it('should parse skills from a skills directory', async () => {
+      writeSkill('pdf-tools', '---\nname: PDF Tools\ndescription: Work with PDFs\n---\n\n# PDF');
+
+      const skills = await new SkillParser().parseSkillsFromRepo(repoDir, 'local');
+
+      expect(skills).toHaveLength(1);
+      expect(skills[0]).toMatchObject({
+        id: 'pdf-tools',
+        name: 'PDF Tools',
+        description: 'Work with PDFs',
+        source: 'local',
+      });
+    });
+
+    it('should prefix skill ids with the namespace', async () => {
+      writeSkill('pdf-tools', '---\nname: pdf-tools\ndescription: Work with PDFs\n---\n');
+
+      const [skill] = await new SkillParser().parseSkillsFromRepo(repoDir, 'repository', {
+        namespace: 'Acme/Agent Skills',
+      });
+
+      expect(skill.id).toBe('acme/agent-skills/pdf-tools');
+    });
+
+    it('should keep the category directories in namespaced ids', async () => {
+      writeSkill('a/design', '---\nname: design\ndescription: Design A\n---\n');
+      writeSkill('b/design', '---\nname: design\ndescription: Design B\n---\n');
+
+      const skills = await new SkillParser().parseSkillsFromRepo(repoDir, 'repository', {
+        namespace: 'acme/skills',
+      });
+
+      expect(skills.map((skill) => skill.id).sort()).toEqual([
+        'acme/skills/a/design',
+        'acme/skills/b/design',
+      ]);
+    });
+
+    it('should fetch awesome-list skills with the category of their README section', async () => {
+      writeFileSync(
+        join(repoDir, 'README.md'),
+        '# Awesome Skills\n\n## Documents\n\n' +
+          '| [docx](https://github.com/acme/tools/blob/v2/docx/SKILL.md) | Edit Word files |\n'
+      );
+      const fetchMock = vi.fn(async (url: string) =>
+        url.endsWith('/SKILL.md')
+          ? new Response('---\nname: docx\ndescription: Word documents\n---\n# DOCX')
+          : new Response('', { status: 404 })
+      );
+      vi.stubGlobal('fetch', fetchMock);
+
+      try {
+        const [skill] = await new SkillParser().parseSkillsFromRepo(repoDir, 'repository');
+
+        expect(fetchMock).toHaveBeenCalledWith(
+          'https://raw.githubusercontent.com/acme/tools/v2/docx/SKILL.md',
+          expect.anything()
+        );
+        expect(skill).toMatchObject({
+          id: 'acme/tools/docx',
+          description: 'Word documents',
+          metadata: { sourceOrg: 'acme', sourceRepo: 'tools', categoryPath: ['Documents'] },
+        });
+      } finally {
+        vi.unstubAllGlobals();
+      }
+    });
+
+    it('should index files bundled next to the skill file', async () => {
+      writeSkill('pdf', '---\nname: pdf\ndescription: Work with PDFs\n---\n');
+      mkdirSync(join(repoDir, 'skills', 'pdf', 'scripts'));
+      writeFileSync(join(repoDir, 'skills', 'pdf', 'scripts', 'fill.py'), 'print()');
+
+      const [skill] = await new SkillParser().parseSkillsFromRepo(repoDir, 'local');
+
+      expect(skill.files).toEqual([
+        expect.objectContaining({ path: 'scripts/fill.py', size: 7, mimeType: 'text/x-python' }),
+      ]);
+    });
+
+    it('should report progress for each skill', async () => {
+      writeSkill('one', '# One\n\nFirst');
+      writeSkill('two', '# Two\n\nSecond');
+      const progress: Array<[number, number]> = [];
+
+      await new SkillParser().parseSkillsFromRepo(repoDir, 'local', {
+        onProgress: (completed, total) => progress.push([completed, total]),
+      });
+
+      expect(progress).toEqual([
+        [1, 2],
+        [2, 2],
+      ]);
+    });
+
+    it('should reject when the signal is aborted', async () => {
+      writeSkill('one', '# One\n\nFirst');
+      const controller = new AbortController();
+      controller.abort();
+
+      await expect(
+        new SkillParser().parseSkillsFromRepo(repoDir, 'local', { signal: controller.signal })
+      ).rejects.toThrow();
+    });
+  });
+
+  describe('frontmatter', () => {
+    const parseSkill = async (content: string) => {
+      writeSkill('pdf', content);
+      const [skill] = await new SkillParser().parseSkillsFromRepo(repoDir, 'local');
+      return skill;
+    };
+
+    it('should parse folded descriptions, block lists, quotes and comments', async () => {
+      const skill = await parseSkill(
+        [
+          '---',
+          '# Shown in listings',
+          'name: pdf',
+          'author: "Docs: Team"',
+          'description: >',
+          '  Fill forms and',
+          '  extract text.',
+          'tags:',
+          '  - pdf',
+          '  - forms',
+          'version: 1.2',
+          '---',
+          '# PDF',
+        ].join('\n')
+      );
+
+      expect(skill).toMatchObject({
+        name: 'pdf',
+        description: 'Fill forms and extract text.',
+        metadata: { author: 'Docs: Team', tags: ['pdf', 'forms'], version: '1.2' },
+      });
+      expect(skill.diagnostics).toBeUndefined();
+    });
+
+    it('should keep unknown keys, including nested maps, as extra metadata', async () => {
+      const skill = await parseSkill(
+        '---\nname: pdf\nsource-url: https://example.com\nowners:\n  docs: [a, b]\n---\n'
+      );
+
+      expect(skill.metadata.extra).toEqual({
+        'source-url': 'https://example.com',
+        owners: { docs: ['a', 'b'] },
+      });
+    });
+
+    it('should report malformed frontmatter with its line and recover simple fields', async () => {
+      const skill = await parseSkill(
+        '---\nname: pdf\ndescription: Fill: forms\n---\n# PDF Tools\n\nWork with PDFs'
+      );
+
+      expect(skill).toMatchObject({ name: 'pdf', description: 'Fill: forms' });
+      expect(skill.diagnostics?.[0]).toMatchObject({
+        severity: 'error',
+        rule: 'frontmatter-syntax',
+        line: 3,
+      });
+    });
+
+    it('should report known fields with the wrong type', async () => {
+      const skill = await parseSkill(
+        '---\nname: pdf\ndescription: Work with PDFs\ntags:\n  nested: true\n---\n'
+      );
+
+      expect(skill.metadata.tags).toBeUndefined();
+      expect(skill.diagnostics).toEqual([
+        {
+          severity: 'warning',
+          rule: 'frontmatter-type',
+          message: "Frontmatter field 'tags' should be a list of strings",
+          line: 4,
+        },
+      ]);
+    });
+  });
+
+  describe('Agent Skills specification', () => {
+    const parseSkill = async (dirName: string, content: string) => {
+      writeSkill(dirName, content);
+      const [skill] = await new SkillParser().parseSkillsFromRepo(repoDir, 'local');
+      return skill;
+    };
+
+    it('should carry license, allowed-tools, compatibility and metadata', async () => {
+      const skill = await parseSkill(
+        'pdf',
+        [
+          '---',
+          'name: pdf',
+          'description: Work with PDFs',
+          'license: Apache-2.0',
+          'allowed-tools: Bash(python:*) Read',
+          'compatibility: Requires python3',
+          'metadata:',
+          '  owner: docs-team',
+          '  revision: 3',
+          '---',
+        ].join('\n')
+      );
+
+      expect(skill.metadata).toMatchObject({
+        license: 'Apache-2.0',
+        allowedTools: ['Bash(python:*)', 'Read'],
+        compatibility: 'Requires python3',
+        customMetadata: { owner: 'docs-team', revision: '3' },
+      });
+      expect(skill.metadata.extra).toBeUndefined();
+      expect(skill.diagnostics).toBeUndefined();
+    });
+
+    it('should accept comma-separated allowed-tools', async () => {
+      const skill = await parseSkill(
+        'git',
+        '---\nname: git\ndescription: Git helper\nallowed-tools: Bash(git add:*), Read\n---\n'
+      );
+
+      expect(skill.metadata.allowedTools).toEqual(['Bash(git add:*)', 'Read']);
+    });
+
+    it('should report names that break the naming rules', async () => {
+      const skill = await parseSkill(
+        'pdf-tools',
+        '---\nname: PDF--Tools\ndescription: Work with PDFs\n---\n'
+      );
+
+      expect(skill.diagnostics).toEqual([
+        expect.objectContaining({ rule: 'name-format', severity: 'warning', line: 2 }),
+        expect.objectContaining({
+          rule: 'name-directory-mismatch',
+          message: "Skill name 'PDF--Tools' does not match its directory 'pdf-tools'",
+        }),
+      ]);
+    });
+
+    it('should report missing and overlong fields', async () => {
+      const skill = await parseSkill(
+        'pdf',
+        `---\nname: pdf\ncompatibility: ${'x'.repeat(501)}\n---\n# PDF\n\nWork with PDFs`
+      );
+
+      expect(skill.description).toBe('Work with PDFs');
+      expect(skill.diagnostics?.map((diagnostic) => diagnostic.rule)).toEqual([
+        'description-missing',
+        'compatibility-length',
+      ]);
+    });
+
+    it('should not hold skills without frontmatter to the spec', async () => {
+      const skill = await parseSkill('notes', '# Release Notes\n\nWrite release notes');
+
+      expect(skill.diagnostics).toBeUndefined();
+    });
+  });
+
+  describe('declared parameters', () => {
+    const parseSkill = async (content: string) => {
+      writeSkill('pdf', content);
+      const [skill] = await new SkillParser().parseSkillsFromRepo(repoDir, 'local');
+      return skill;
+    };
+
+    const frontmatter = (...lines: string[]) =>
+      ['---', 'name: pdf', 'description: Work with PDFs', ...lines, '---', '# PDF'].join('\n');
+
+    it('should read a map of parameter schemas', async () => {
+      const skill = await parseSkill(
+        frontmatter(
+          'parameters:',
+          '  pages:',
+          '    type: integer',
+          '    description: Pages to render',
+          '    minimum: 1',
+          '    default: 1',
+          '    examples: [1, 10]',
+          '  options:',
+          '    type: object',
+          '    required: [title]',
+          '    properties:',
+          '      title: { type: string, minLength: 1 }',
+          '      margins: { type: array, items: { type: number } }',
+          '  file:',
+          '    type: string',
+          '    required: true'
+        )
+      );
+
+      expect(skill.parameters).toEqual([
+        {
+          name: 'pages',
+          type: 'integer',
+          description: 'Pages to render',
+          required: false,
+          minimum: 1,
+          default: 1,
+          examples: [1, 10],
+        },
+        {
+          name: 'options',
+          type: 'object',
+          description: 'options',
+          required: false,
+          requiredProperties: ['title'],
+          properties: {
+            title: { type: 'string', minLength: 1 },
+            margins: { type: 'array', items: { type: 'number' } },
+          },
+        },
+        { name: 'file', type: 'string', description: 'file', required: true },
+      ]);
+      expect(skill.diagnostics).toBeUndefined();
+    });
+
+    it('should read a JSON Schema object and a list of named schemas', async () => {
+      const schemaSkill = await parseSkill(
+        frontmatter(
+          'parameters:',
+          '  type: object',
+          '  required: [file]',
+          '  properties:',
+          "    file: { type: string, pattern: '\\.pdf$' }",
+          '    quiet: { type: boolean }'
+        )
+      );
+      expect(schemaSkill.parameters).toMatchObject([
+        { name: 'file', required: true, pattern: '\\.pdf$' },
+        { name: 'quiet', required: false },
+      ]);
+
+      const listSkill = await parseSkill(
+        frontmatter('parameters:', '  - name: file', '    type: string', '    required: true')
+      );
+      expect(listSkill.parameters).toEqual([
+        { name: 'file', type: 'string', description: 'file', required: true },
+      ]);
+    });
+
+    it('should prefer declarations over the Parameters section', async () => {
+      const body = '\n## Parameters\n- scraped (string): From markdown\n';
+
+      expect((await parseSkill(frontmatter() + body)).parameters).toMatchObject([
+        { name: 'scraped' },
+      ]);
+      expect(
+        (await parseSkill(frontmatter('parameters:', '  file: { type: string }') + body)).parameters
+      ).toMatchObject([{ name: 'file' }]);
+    });
+
+    it('should report and skip invalid declarations', async () => {
+      const skill = await parseSkill(
+        frontmatter(
+          'parameters:',
+          '  file: { type: string }',
+          '  pages: { type: int }',
+          '  "bad name": { type: string }',
+          '  format: { type: string, pattern: "[" }'
+        )
+      );
+
+      expect(skill.parameters.map((param) => param.name)).toEqual(['file']);
+      expect(skill.diagnostics).toEqual([
+        expect.objectContaining({ rule: 'parameter-schema', line: 4 }),
+        expect.objectContaining({ rule: 'parameter-schema', line: 4 }),
+        expect.objectContaining({
+          rule: 'parameter-schema',
+          message: 'Parameter format is invalid: pattern: Must be a valid regular expression',
+        }),
+      ]);
+    });
+  });
+});
@@ -0,0 +1,76 @@
+import { describe, it, expect, beforeEach } from 'vitest';
+import { SkillRecommender } from '../../src/services/skill-recommender.js';
+import { SkillSearchIndex } from '../../src/services/skill-search.js';
+import { SkillRegistry } from '../../src/models/registry.js';
+import { Skill } from '../../src/models/skill.js';
+
+describe('SkillRecommender', () => {
+  let registry: SkillRegistry;
+  let recommender: SkillRecommender;
+
+  const createTestSkill = (id: string, overrides: Partial<Skill> = {}): Skill => ({
+    id,
+    name: id,
+    description: `Skill ${id}`,
+    source: 'repository',
+    sourcePath: `/path/to/${id}`,
+    content: `Instructions for ${id}.`,
+    parameters: [],
+    metadata: {},
+    lastUpdated: new Date(),
+    ...overrides,
+  });
+
+  beforeEach(() => {
+    registry = new SkillRegistry('/tmp/cache');
+    registry.registerSkill(
+      createTestSkill('stripe-best-practices', {
+        description: 'Best practices for Stripe integrations',
+        content: 'Verify webhook signatures and handle payment events idempotently.',
+        metadata: { sourceOrg: 'stripe', tags: ['payments'] },
+      })
+    );
+    registry.registerSkill(
+      createTestSkill('next-best-practices', {
+        description: 'Next.js App Router conventions',
+        content: 'Use route handlers for API endpoints in React server apps.',
+        metadata: { sourceOrg: 'vercel', tags: ['nextjs', 'react'] },
+      })
+    );
+    registry.registerSkill(
+      createTestSkill('solidity-audit', {
+        description: 'Audit Solidity smart contracts',
+        metadata: { sourceOrg: 'trailofbits', tags: ['solidity', 'security'] },
+      })
+    );
+    recommender = new SkillRecommender(registry, new SkillSearchIndex(registry));
+  });
+
+  it('should rank skills by relevance to the task and explain why', () => {
+    const [top] = recommender.recommend({ task: 'handle Stripe webhook events' });
+
+    expect(top.skill.id).toBe('stripe-best-practices');
+    expect(top.reason).toContain('"stripe", "webhook"');
+    expect(top.reason).toContain('From stripe, which the task mentions');
+    expect(top.score).toBeGreaterThan(0);
+    expect(top.score).toBeLessThanOrEqual(1);
+  });
+
+  it('should use file extensions and languages as hints', () => {
+    const results = recommender.recommend({
+      task: 'review this code',
+      files: ['contracts/Vault.sol'],
+    });
+
+    expect(results[0].skill.id).toBe('solidity-audit');
+    expect(results[0].reason).toBe('Relevant to .sol files');
+
+    const byLanguage = recommender.recommend({ task: 'add an endpoint', languages: ['React'] });
+    expect(byLanguage.map((r) => r.skill.id)).toContain('next-best-practices');
+  });
+
+  it('should honour the limit and return nothing without signals', () => {
+    expect(recommender.recommend({ task: 'best practices', limit: 1 })).toHaveLength(1);
+    expect(recommender.recommend({ task: 'bake bread' })).toEqual([]);
+  });
+});
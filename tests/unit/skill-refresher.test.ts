@@ -0,0 +1,98 @@
+import { describe, it, expect, beforeEach, vi } from 'vitest';
+import { SkillRegistry } from '../../src/models/registry.js';
+import { Skill } from '../../src/models/skill.js';
+import { GitSyncResult } from '../../src/services/git-sync.js';
+import { SkillRefresher } from '../../src/services/skill-refresher.js';
+
+describe('SkillRefresher', () => {
+  let registry: SkillRegistry;
+
+  const createSkill = (id: string): Skill => ({
+    id,
+    name: id,
+    description: `Skill ${id}`,
+    source: 'repository',
+    sourcePath: `/path/to/${id}`,
+    content: 'Content',
+    parameters: [],
+    metadata: {},
+    lastUpdated: new Date(),
+  });
+
+  const updated: GitSyncResult = {
+    success: true,
+    updated: true,
+    message: 'Repository updated successfully',
+    skillsChanged: true,
+  };
+  const upToDate: GitSyncResult = {
+    success: true,
+    updated: false,
+    message: 'Repository is up to date',
+    skillsChanged: false,
+  };
+
+  beforeEach(() => {
+    registry = new SkillRegistry('/tmp/cache');
+    registry.registerSkill(createSkill('old'));
+  });
+
+  it('should reload the skills when the repository changed', async () => {
+    const saveSkills = vi.fn(async () => {});
+    const onReload = vi.fn();
+    const refresher = new SkillRefresher(registry, {
+      sync: async () => updated,
+      parseSkills: async () => [createSkill('old'), createSkill('new')],
+      saveSkills,
+      onReload,
+    });
+
+    const result = await refresher.refresh();
+
+    expect(result).toMatchObject({ success: true, skillsUpdated: 2, skillsAdded: 1 });
+    expect(saveSkills).toHaveBeenCalledWith(registry);
+    expect(onReload).toHaveBeenCalledOnce();
+  });
+
+  it('should reload on the next refresh when cancelled after the clone moved', async () => {
+    const sync = vi.fn(async () => updated);
+    const parseSkills = vi.fn(async () => [createSkill('new')]);
+    const refresher = new SkillRefresher(registry, {
+      sync,
+      parseSkills,
+      saveSkills: async () => {},
+    });
+
+    // The client cancels while the clone is being updated, before parsing starts
+    const controller = new AbortController();
+    sync.mockImplementationOnce(async () => {
+      controller.abort();
+      return updated;
+    });
+    await expect(refresher.refresh({ signal: controller.signal })).rejects.toThrow();
+    expect(parseSkills).not.toHaveBeenCalled();
+    expect(registry.hasSkill('old')).toBe(true);
+
+    // Upstream has no further commits, but the clone is ahead of the registry
+    sync.mockResolvedValueOnce(upToDate);
+    const result = await refresher.refresh();
+
+    expect(result.message).toBe('Skills refreshed successfully. Now have 1 skills.');
+    expect(registry.listSkills().map((skill) => skill.id)).toEqual(['new']);
+  });
+
+  it('should report no changes when the repository is up to date', async () => {
+    const parseSkills = vi.fn(async () => []);
+    const refresher = new SkillRefresher(registry, {
+      sync: async () => upToDate,
+      parseSkills,
+      saveSkills: async () => {},
+    });
+
+    expect(await refresher.refresh()).toMatchObject({
+      success: true,
+      message: 'No changes detected',
+    });
+    expect(parseSkills).not.toHaveBeenCalled();
+  });
+});
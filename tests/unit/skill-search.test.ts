@@ -0,0 +1,109 @@
+import { describe, it, expect, beforeEach } from 'vitest';
+import { SkillSearchIndex, buildSnippet, tokenize } from '../../src/services/skill-search.js';
+import { SkillRegistry } from '../../src/models/registry.js';
+import { Skill } from '../../src/models/skill.js';
+
+describe('SkillSearchIndex', () => {
+  let registry: SkillRegistry;
+  let index: SkillSearchIndex;
+
+  const createTestSkill = (id: string, overrides: Partial<Skill> = {}): Skill => ({
+    id,
+    name: id,
+    description: `Skill ${id}`,
+    source: 'repository',
+    sourcePath: `/path/to/${id}`,
+    content: `Instructions for ${id}.`,
+    parameters: [],
+    metadata: {},
+    lastUpdated: new Date(),
+    ...overrides,
+  });
+
+  beforeEach(() => {
+    registry = new SkillRegistry('/tmp/cache');
+    registry.registerSkill(
+      createTestSkill('document-tools', {
+        description: 'Create and edit office documents',
+        content: 'Use this skill to extract text from PDFs and fill in PDF forms with pypdf.',
+      })
+    );
+    registry.registerSkill(
+      createTestSkill('pdf', {
+        description: 'Comprehensive PDF manipulation toolkit',
+        metadata: { tags: ['pdf', 'documents'] },
+      })
+    );
+    registry.registerSkill(
+      createTestSkill('frontend-design', {
+        description: 'Build distinctive frontend interfaces',
+        content: 'Choose typography and color with intent.',
+      })
+    );
+    index = new SkillSearchIndex(registry);
+  });
+
+  it('should tokenize, drop stop words and reduce plurals', () => {
+    expect(tokenize('Fill in the PDFs and Libraries')).toEqual(['fill', 'pdf', 'library']);
+  });
+
+  it('should find skills that only mention the term in their content', () => {
+    const results = index.search('pdf');
+
+    expect(results.map((r) => r.skill.id)).toEqual(['pdf', 'document-tools']);
+    expect(results[1].matchedFields).toEqual(['content']);
+    expect(results[1].snippet).toContain('extract text from PDFs');
+  });
+
+  it('should rank name and tag matches above content matches', () => {
+    const [top, second] = index.search('pdf');
+
+    expect(top.skill.id).toBe('pdf');
+    expect(top.matchedFields).toEqual(['name', 'tags', 'description', 'content']);
+    expect(top.score).toBeGreaterThan(second.score);
+  });
+
+  it('should favour skills matching more of the query terms', () => {
+    const [top] = index.search('pdf forms');
+
+    expect(top.skill.id).toBe('document-tools');
+  });
+
+  it('should return nothing for queries without indexable terms', () => {
+    expect(index.search('the and of')).toEqual([]);
+    expect(index.search('kubernetes')).toEqual([]);
+  });
+
+  it('should follow registry changes', () => {
+    registry.registerSkill(
+      createTestSkill('kubernetes', { description: 'Deploy workloads to Kubernetes clusters' })
+    );
+    expect(index.search('kubernetes').map((r) => r.skill.id)).toEqual(['kubernetes']);
+
+    registry.replaceSkills([createTestSkill('frontend-design')]);
+    expect(index.getDocumentCount()).toBe(1);
+    expect(index.search('pdf')).toEqual([]);
+    expect(index.search('frontend').map((r) => r.skill.id)).toEqual(['frontend-design']);
+  });
+
+  it('should stop following the registry once disposed', () => {
+    index.dispose();
+    registry.clear();
+
+    expect(index.getDocumentCount()).toBe(3);
+  });
+
+  describe('buildSnippet', () => {
+    it('should cut a window around the first match at word boundaries', () => {
+      const content = `${'intro '.repeat(40)}the invoice parser handles totals ${'outro '.repeat(40)}`;
+      const snippet = buildSnippet(content, ['invoice']);
+
+      expect(snippet).toMatch(/^….*invoice parser handles totals.*…$/);
+      expect(snippet!.length).toBeLessThanOrEqual(162);
+    });
+
+    it('should return undefined when no term occurs', () => {
+      expect(buildSnippet('nothing here', ['pdf'])).toBeUndefined();
+    });
+  });
+});
@@ -0,0 +1,77 @@
+import { describe, it, expect } from 'vitest';
+import {
+  SectionNotFoundError,
+  buildTableOfContents,
+  parseSections,
+  selectSections,
+} from '../../src/services/skill-sections.js';
+
+const content = [
+  '# PDF',
+  '',
+  'Work with PDFs.',
+  '',
+  '## Usage',
+  '',
+  '```bash',
+  '# not a heading',
+  'pdftotext in.pdf',
+  '```',
+  '',
+  '### Examples',
+  '',
+  'Extract text.',
+  '',
+  '## Examples ##',
+  '',
+  'Fill a form.',
+].join('\n');
+
+describe('skill sections', () => {
+  it('should parse headings into a tree, ignoring code blocks', () => {
+    const [root] = parseSections(content);
+
+    expect(root).toMatchObject({ title: 'PDF', level: 1, path: ['PDF'] });
+    expect(root.children.map((section) => section.path)).toEqual([
+      ['PDF', 'Usage'],
+      ['PDF', 'Examples'],
+    ]);
+    expect(root.children[0].children.map((section) => section.title)).toEqual(['Examples']);
+  });
+
+  it('should list sections with size estimates in document order', () => {
+    const toc = buildTableOfContents(content);
+
+    expect(toc.map((entry) => entry.path.join(' > '))).toEqual([
+      'PDF',
+      'PDF > Usage',
+      'PDF > Usage > Examples',
+      'PDF > Examples',
+    ]);
+    expect(toc[0].size).toBe(content.length);
+    expect(toc[3]).toMatchObject({ size: 28, tokens: 7 });
+  });
+
+  it('should select sections by title, including their subsections', () => {
+    expect(selectSections(content, ['usage'])).toBe(
+      '## Usage\n\n```bash\n# not a heading\npdftotext in.pdf\n```\n\n### Examples\n\nExtract text.'
+    );
+    expect(selectSections(content, ['Examples'])).toBe(
+      '### Examples\n\nExtract text.\n\n## Examples ##\n\nFill a form.'
+    );
+  });
+
+  it('should select sections by heading path without repeating nested ones', () => {
+    expect(selectSections(content, ['Usage > Examples'])).toBe('### Examples\n\nExtract text.');
+    expect(selectSections(content, ['Usage', 'Usage > Examples'])).toBe(
+      selectSections(content, ['Usage'])
+    );
+  });
+
+  it('should name missing sections and the available ones', () => {
+    expect(() => selectSections(content, ['Setup'])).toThrow(SectionNotFoundError);
+    expect(() => selectSections('No headings', ['Setup'])).toThrow(
+      'Section not found: Setup. Available sections: none'
+    );
+  });
+});
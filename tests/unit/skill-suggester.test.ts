@@ -0,0 +1,68 @@
+import { describe, it, expect, beforeEach } from 'vitest';
+import { SkillSuggester, editDistance } from '../../src/services/skill-suggester.js';
+import { SkillRegistry } from '../../src/models/registry.js';
+import { Skill } from '../../src/models/skill.js';
+
+describe('SkillSuggester', () => {
+  let registry: SkillRegistry;
+  let suggester: SkillSuggester;
+
+  const createTestSkill = (id: string, name: string, sourceOrg?: string): Skill => ({
+    id,
+    name,
+    description: `Skill ${id}`,
+    source: 'repository',
+    sourcePath: `/path/to/${id}`,
+    content: 'Content',
+    parameters: [],
+    metadata: { sourceOrg },
+    lastUpdated: new Date(),
+  });
+
+  beforeEach(() => {
+    registry = new SkillRegistry('/tmp/cache');
+    registry.registerSkill(createTestSkill('frontend-design', 'Frontend Design', 'anthropics'));
+    registry.registerSkill(createTestSkill('pdf', 'PDF Processing', 'anthropics'));
+    registry.registerSkill(createTestSkill('docx', 'Word Documents', 'anthropics'));
+    registry.registerSkill(createTestSkill('stripe-best-practices', 'Stripe Best Practices'));
+    suggester = new SkillSuggester(registry);
+  });
+
+  it('should compute edit distance', () => {
+    expect(editDistance('kitten', 'sitting')).toBe(3);
+    expect(editDistance('', 'abc')).toBe(3);
+    expect(editDistance('same', 'same')).toBe(0);
+  });
+
+  it('should suggest skills for typos', () => {
+    expect(suggester.suggest('fronted-design')[0]).toMatchObject({ id: 'frontend-design' });
+  });
+
+  it('should suggest skills sharing words with the requested id', () => {
+    expect(suggester.suggest('stripe-practices').map((s) => s.id)).toEqual([
+      'stripe-best-practices',
+    ]);
+  });
+
+  it('should match display names and org-qualified ids as aliases', () => {
+    expect(suggester.suggest('PDF Processing')[0]).toEqual({
+      id: 'pdf',
+      name: 'PDF Processing',
+      score: 1,
+    });
+    expect(suggester.suggest('anthropics/docx')[0]).toMatchObject({ id: 'docx', score: 1 });
+  });
+
+  it('should not suggest unrelated skills', () => {
+    expect(suggester.suggest('kubernetes')).toEqual([]);
+    expect(suggester.suggest('')).toEqual([]);
+  });
+
+  it('should only resolve a single close match', () => {
+    expect(suggester.resolve('frontend-desing')?.id).toBe('frontend-design');
+    expect(suggester.resolve('pdx')).toBeUndefined();
+
+    registry.registerSkill(createTestSkill('frontend-designs', 'Frontend Designs'));
+    expect(suggester.resolve('frontend-desing')).toBeUndefined();
+  });
+});